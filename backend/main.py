@@ -1,11 +1,13 @@
 # main.py
 
-from fastapi import FastAPI, HTTPException
+from fastapi import FastAPI, HTTPException, Response
 from fastapi.middleware.cors import CORSMiddleware
 from pydantic import BaseModel, Field
 from typing import List, Tuple, Dict
 import logging
 import rasterio
+from rasterio.enums import Resampling
+from rasterio.windows import from_bounds
 from shapely.geometry import Point, Polygon as ShapelyPolygon, MultiPoint
 import joblib
 import json
@@ -57,6 +59,11 @@ KOPPEN_CLASSES = {
     23: ("Dfa", "Hot-summer humid continental"), 24: ("Dfb", "Warm-summer humid continental"), 25: ("Dfc", "Subarctic"),
     26: ("Dfd", "Severely cold subarctic"), 27: ("ET", "Tundra"), 28: ("EF", "Ice cap")
 }
+# Mirrored in src/lib/koppen/classes.ts for the map overlay; keep the ids in step.
+
+# Köppen overlay tiles: class ids sampled on a KOPPEN_TILE_SIZE square grid per Web Mercator tile
+KOPPEN_TILE_SIZE = 64
+KOPPEN_MAX_ZOOM = 10
 
 # --- Load ML Models and Lookups on Startup ---
 try:
@@ -200,6 +207,27 @@ def get_koppen_biome(lat: float, lng: float, raster_file="koppen.tif") -> Tuple[
         return 0, "Error", "Error"
 
 
+def get_koppen_tile(z: int, x: int, y: int, raster_file="koppen.tif") -> np.ndarray:
+    """Köppen class ids at the pixel centres of Web Mercator tile z/x/y (0 where the raster has no class)."""
+    n = 2 ** z
+    steps = (np.arange(KOPPEN_TILE_SIZE) + 0.5) / KOPPEN_TILE_SIZE
+    lngs = (x + steps) / n * 360 - 180
+    lats = np.degrees(np.arctan(np.sinh(np.pi * (1 - 2 * (y + steps) / n))))
+    west, east = x / n * 360 - 180, (x + 1) / n * 360 - 180
+    north = float(np.degrees(np.arctan(np.sinh(np.pi * (1 - 2 * y / n)))))
+    south = float(np.degrees(np.arctan(np.sinh(np.pi * (1 - 2 * (y + 1) / n)))))
+
+    # Read only the tile's window, decimated, then pick the cell under each pixel centre
+    read_size = KOPPEN_TILE_SIZE * 4
+    with rasterio.open(raster_file) as src:
+        window = from_bounds(west, south, east, north, src.transform)
+        band = src.read(1, window=window, out_shape=(read_size, read_size), boundless=True, fill_value=0, resampling=Resampling.nearest)
+    rows = np.clip(((north - lats) / (north - south) * read_size).astype(int), 0, read_size - 1)
+    cols = np.clip(((lngs - west) / (east - west) * read_size).astype(int), 0, read_size - 1)
+    ids = band[rows[:, None], cols[None, :]]
+    return np.where((ids >= 1) & (ids <= len(KOPPEN_CLASSES)), ids, 0).astype(np.uint8)
+
+
 # --- API Models ---
 
 class AnalysisRequest(BaseModel):
@@ -214,6 +242,18 @@ class AnalysisRequest(BaseModel):
 async def root():
     return {"status": "KaalNetra API is online"}
 
+@app.get("/koppen/tile/{z}/{x}/{y}")
+async def koppen_tile(z: int, x: int, y: int):
+    """Raw uint8 class ids, KOPPEN_TILE_SIZE rows of KOPPEN_TILE_SIZE, top-left first."""
+    if not (0 <= z <= KOPPEN_MAX_ZOOM and 0 <= x < 2 ** z and 0 <= y < 2 ** z):
+        raise HTTPException(status_code=400, detail=f"Tile must be within zoom 0-{KOPPEN_MAX_ZOOM}.")
+    try:
+        ids = get_koppen_tile(z, x, y)
+    except Exception as e:
+        logger.exception(f"Köppen tile {z}/{x}/{y} failed: {e}")
+        raise HTTPException(status_code=500, detail="Could not read the Köppen raster.")
+    return Response(content=ids.tobytes(), media_type="application/octet-stream")
+
 @app.post("/analyze-by-biome")
 async def analyze_area_by_biome(request: AnalysisRequest):
     """
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { normalizeLocale, pregenerateSummaries } from '@/lib/summaries';
+
+export const runtime = 'nodejs';
+
+/**
+ * Warms the flower or pest cache for every species/pest in the name lookups.
+ * Body: { biome_names: string[], locale?: string, force?: boolean, concurrency?: number }
+ */
+export async function POST(req: Request, context: { params: Promise<{ kind: string }> }) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const { kind } = await context.params;
+        if (kind !== 'flower' && kind !== 'pest') {
+            return NextResponse.json({ error: `Pre-generation is only supported for flower and pest summaries` }, { status: 404 });
+        }
+
+        const { biome_names, locale, force, concurrency } = await req.json();
+        if (!Array.isArray(biome_names) || biome_names.length === 0 || !biome_names.every(n => typeof n === 'string')) {
+            return NextResponse.json({ error: 'Expected { biome_names: string[] }' }, { status: 400 });
+        }
+
+        const report = await pregenerateSummaries(kind, biome_names, {
+            force: Boolean(force),
+            locale: normalizeLocale(locale),
+            concurrency: Math.min(Math.max(Number(concurrency) || 4, 1), 16),
+        });
+        return NextResponse.json(report);
+    } catch (e: any) {
+        return NextResponse.json({ error: e?.message || 'Unknown server error' }, { status: 500 });
+    }
+}
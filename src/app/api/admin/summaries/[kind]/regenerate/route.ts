@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { isSummaryKind, regenerateSummary } from '@/lib/summaries';
+
+export const runtime = 'nodejs';
+
+/** Forces a fresh summary for `{ key }`, replacing fallback or stale text. */
+export async function POST(req: Request, context: { params: Promise<{ kind: string }> }) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const { kind } = await context.params;
+        if (!isSummaryKind(kind)) {
+            return NextResponse.json({ error: `Unknown summary cache: ${kind}` }, { status: 404 });
+        }
+
+        const { key } = await req.json();
+        if (!key) {
+            return NextResponse.json({ error: 'Missing key' }, { status: 400 });
+        }
+
+        const result = await regenerateSummary(kind, key);
+        if (!result) {
+            return NextResponse.json({ error: `No regenerable entry for key: ${key}` }, { status: 404 });
+        }
+        return NextResponse.json(result);
+    } catch (e: any) {
+        return NextResponse.json({ error: e?.message || 'Unknown server error' }, { status: 500 });
+    }
+}
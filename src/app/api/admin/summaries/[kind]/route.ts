@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { getSummaryStore, isSummaryKind, type SummaryRecord } from '@/lib/summaries';
+
+export const runtime = 'nodejs';
+
+type Context = { params: Promise<{ kind: string }> };
+
+/**
+ * Entries whose key starts with `prefix`, contains `contains` (e.g. "::tundra")
+ * and, if given, were produced by `model` (e.g. "fallback/no-key").
+ */
+function matches(key: string, record: SummaryRecord, url: URL) {
+    const prefix = url.searchParams.get('prefix');
+    const contains = url.searchParams.get('contains');
+    const model = url.searchParams.get('model');
+    if (prefix && !key.startsWith(prefix)) return false;
+    if (contains && !key.includes(contains)) return false;
+    if (model && record?.modelUsed !== model) return false;
+    return true;
+}
+
+export async function GET(req: Request, context: Context) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const { kind } = await context.params;
+        if (!isSummaryKind(kind)) {
+            return NextResponse.json({ error: `Unknown summary cache: ${kind}` }, { status: 404 });
+        }
+
+        const url = new URL(req.url);
+        const entries = (await getSummaryStore(kind).entries())
+            .filter(([key, entry]) => matches(key, entry.value as SummaryRecord, url))
+            .map(([key, entry]) => {
+                const record = entry.value as SummaryRecord;
+                return {
+                    key,
+                    summary: record.summary,
+                    modelUsed: record.modelUsed,
+                    generatedAt: record.generatedAt,
+                    expiresAt: entry.expiresAt ? new Date(entry.expiresAt).toISOString() : null,
+                    input: record.input,
+                };
+            });
+
+        return NextResponse.json({ count: entries.length, entries });
+    } catch (e: any) {
+        return NextResponse.json({ error: e?.message || 'Unknown server error' }, { status: 500 });
+    }
+}
+
+/** Deletes `?key=` exactly, or every entry matching the GET filters. */
+export async function DELETE(req: Request, context: Context) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const { kind } = await context.params;
+        if (!isSummaryKind(kind)) {
+            return NextResponse.json({ error: `Unknown summary cache: ${kind}` }, { status: 404 });
+        }
+
+        const url = new URL(req.url);
+        const store = getSummaryStore(kind);
+        const key = url.searchParams.get('key');
+        if (key) {
+            const deleted = await store.delete(key);
+            return NextResponse.json({ deleted: deleted ? 1 : 0 });
+        }
+
+        if (!['prefix', 'contains', 'model'].some(p => url.searchParams.get(p))) {
+            return NextResponse.json({ error: 'Expected key, prefix, contains or model' }, { status: 400 });
+        }
+
+        let deleted = 0;
+        for (const [entryKey, entry] of await store.entries()) {
+            if (matches(entryKey, entry.value as SummaryRecord, url) && await store.delete(entryKey)) deleted++;
+        }
+        return NextResponse.json({ deleted });
+    } catch (e: any) {
+        return NextResponse.json({ error: e?.message || 'Unknown server error' }, { status: 500 });
+    }
+}
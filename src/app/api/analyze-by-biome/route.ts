@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { AnalysisError, analyzeByBiome, parseAnalysisRequest } from '@/lib/analysis';
+
+export const runtime = 'nodejs';
+
+/**
+ * Proxies `{ shape_points, month, year }` to the model server's
+ * /analyze-by-biome. Both the request and the backend's answer are checked
+ * against the shared contract in lib/analysis; every failure comes back as
+ * `{ error, problems? }`.
+ */
+export async function POST(req: Request) {
+    try {
+        const body = await req.json().catch(() => null);
+        const parsed = parseAnalysisRequest(body);
+        if (!parsed.value) {
+            return NextResponse.json({ error: 'Invalid analysis request', problems: parsed.problems }, { status: 400 });
+        }
+
+        const result = await analyzeByBiome(parsed.value);
+        return NextResponse.json(result);
+
+    } catch (e: any) {
+        if (e instanceof AnalysisError) {
+            const body = e.problems.length ? { error: e.message, problems: e.problems } : { error: e.message };
+            return NextResponse.json(body, { status: e.status });
+        }
+        console.error("Analysis proxy error:", e.message);
+        return NextResponse.json({ error: e?.message || 'Unknown server error' }, { status: 500 });
+    }
+}
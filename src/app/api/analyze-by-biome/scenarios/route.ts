@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { ndjsonResponse } from '@/lib/ndjson';
+import { analyzeYears, MAX_SCENARIO_YEARS, parseAnalysisRequest } from '@/lib/analysis';
+import { MAX_YEAR, MIN_YEAR } from '@/lib/analysis/types';
+
+export const runtime = 'nodejs';
+
+/**
+ * Scenario comparison: `{ shape_points, month, years }` analysed once per
+ * year (2 to MAX_SCENARIO_YEARS of them) through the same cached batch
+ * runner as the whole-year mode. The response is NDJSON, one
+ * `{ month, year, result, cached }` or `{ month, year, error, problems? }`
+ * line per year as each settles.
+ */
+export async function POST(req: Request) {
+    const body = await req.json().catch(() => null);
+    const years: unknown = body?.years;
+    const parsed = parseAnalysisRequest(body && { ...body, year: Array.isArray(years) ? years[0] : undefined });
+    const problems = [...parsed.problems];
+    if (!Array.isArray(years) || !years.every((y) => Number.isInteger(y) && y >= MIN_YEAR && y <= MAX_YEAR)) {
+        problems.push(`years must be an array of integers from ${MIN_YEAR} to ${MAX_YEAR}.`);
+    } else if (new Set(years).size < 2 || new Set(years).size > MAX_SCENARIO_YEARS) {
+        problems.push(`years must hold 2 to ${MAX_SCENARIO_YEARS} different years.`);
+    }
+    if (!parsed.value || problems.length) {
+        return NextResponse.json({ error: 'Invalid analysis request', problems: [...new Set(problems)] }, { status: 400 });
+    }
+
+    const { shape_points, month } = parsed.value;
+    return ndjsonResponse(analyzeYears(shape_points, month, [...new Set(years as number[])].sort((a, b) => a - b)));
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { ndjsonResponse } from '@/lib/ndjson';
+import { ALL_MONTHS, analyzeYear, parseAnalysisRequest } from '@/lib/analysis';
+
+export const runtime = 'nodejs';
+
+/**
+ * Whole-year mode: `{ shape_points, year, months? }` (months default to
+ * 1-12) analysed month by month, a few backend calls at a time, with
+ * repeated months served from the analysis cache. The response is NDJSON,
+ * one `{ month, year, result, cached }` or `{ month, year, error, problems? }`
+ * line per month as each settles.
+ */
+export async function POST(req: Request) {
+    const body = await req.json().catch(() => null);
+    const parsed = parseAnalysisRequest(body && { ...body, month: 1 });
+    const months: unknown = body?.months ?? ALL_MONTHS;
+    const problems = [...parsed.problems];
+    if (!Array.isArray(months) || months.length === 0 || !months.every((m) => Number.isInteger(m) && m >= 1 && m <= 12)) {
+        problems.push('months must be a non-empty array of integers from 1 to 12.');
+    }
+    if (!parsed.value || problems.length) {
+        return NextResponse.json({ error: 'Invalid analysis request', problems }, { status: 400 });
+    }
+
+    const { shape_points, year } = parsed.value;
+    return ndjsonResponse(analyzeYear(shape_points, year, [...new Set(months as number[])]));
+}
@@ -1,13 +1,32 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig, isAllowedOrigin, MAPS_TICKET_COOKIE, publicConfig, verifyMapsTicket } from '@/lib/config';
 
 /**
- * API route to expose environment variables to the client
- * This allows us to keep variables server-side without NEXT_PUBLIC_ prefix
+ * API route exposing the allow-listed public configuration to the client.
+ * The Maps key is only included for requests coming from our own pages and,
+ * with MAPS_KEY_MODE=signed, carrying a valid short-lived ticket cookie.
  */
-export async function GET() {
-  return NextResponse.json({
-    googleMapsApiKey: process.env.GOOGLE_MAPS_API_KEY || '',
-    apiUrl: process.env.API_URL || '',
-    mapId: process.env.MAP_ID || '',
-  });
+export async function GET(req: NextRequest) {
+  try {
+    const config = getConfig();
+    const body = publicConfig(config);
+    const headers = { 'Cache-Control': 'no-store', Vary: 'Origin, Referer, Cookie' };
+
+    if (!isAllowedOrigin(config, req.headers, req.nextUrl.origin)) {
+      return NextResponse.json({ error: 'Origin not allowed' }, { status: 403, headers });
+    }
+
+    if (config.maps.keyMode === 'signed') {
+      const expiresAt = verifyMapsTicket(config, req.cookies.get(MAPS_TICKET_COOKIE)?.value);
+      if (!expiresAt) {
+        return NextResponse.json({ error: 'Map ticket missing or expired, reload the page' }, { status: 403, headers });
+      }
+      body.mapsKeyExpiresAt = expiresAt;
+    }
+
+    body.googleMapsApiKey = config.maps.apiKey;
+    return NextResponse.json(body, { headers });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || 'Unknown server error' }, { status: 500 });
+  }
 }
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server.js";
+import { validateGeometry } from "@/lib/geometry";
+import { polygonsFromGeoJson, polygonsToGeoJson, SamplingError, type Point, type PolygonRings } from "@/lib/sampling";
+
+export const runtime = "nodejs";
+
+function readPolygons(body: any): PolygonRings[] {
+  if (typeof body?.type === "string") return polygonsFromGeoJson(body, { checkRange: false });
+
+  const ring = body?.shape_points ?? body?.points;
+  if (!Array.isArray(ring) || !ring.every((p: unknown) => Array.isArray(p) && p.length >= 2 && p.slice(0, 2).every(Number.isFinite))) {
+    throw new SamplingError("Expected GeoJSON, or { shape_points: [[lat, lng], ...] }");
+  }
+  return [[ring.map(([lat, lng]: number[]): Point => [lat, lng])]];
+}
+
+/**
+ * Validates and repairs a shape before analysis. Accepts GeoJSON (Polygon,
+ * MultiPolygon, Feature, FeatureCollection) or `{ shape_points }` as sent
+ * to /analyze-by-biome, and returns:
+ *
+ *   valid         false when any issue is an error
+ *   issues        `{ code, severity, message, repaired }`
+ *   geometry      the repaired shape as GeoJSON
+ *   shape_points  outer ring of the largest polygon, simplified when needed, ready for analysis
+ *   measurements  geodesic area, perimeter, centroid, bbox and vertex count
+ *   simplified    a lighter copy, when the shape has too many vertices
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const report = validateGeometry(readPolygons(body));
+
+    const simplified = report.simplified?.polygons;
+    const largest = (simplified?.length === report.polygons.length ? simplified : report.polygons)[report.largest];
+
+    return NextResponse.json({
+      valid: report.valid,
+      issues: report.issues,
+      geometry: report.polygons.length ? polygonsToGeoJson(report.polygons) : null,
+      shape_points: report.valid && largest ? largest[0] : null,
+      measurements: report.measurements ?? null,
+      simplified: report.simplified
+        ? {
+            geometry: polygonsToGeoJson(report.simplified.polygons),
+            vertexCount: report.simplified.vertexCount,
+            toleranceM: report.simplified.toleranceM,
+          }
+        : null,
+    });
+  } catch (err: any) {
+    if (err instanceof SamplingError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: err?.message || "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { fetchKoppenTile, isValidTile, KOPPEN_MAX_ZOOM, KoppenTileError } from '@/lib/koppen';
+
+export const runtime = 'nodejs';
+
+type Context = { params: Promise<{ z: string; x: string; y: string }> };
+
+/**
+ * One Köppen overlay tile: KOPPEN_TILE_SIZE² raw uint8 class ids (see
+ * src/lib/koppen/classes.ts), row-major from the top-left, for Web Mercator
+ * tile z/x/y. The browser colours them itself and reads them for the hover
+ * readout. The raster is static, so responses are cacheable for a day.
+ */
+export async function GET(req: Request, context: Context) {
+    const params = await context.params;
+    const tile = { z: Number(params.z), x: Number(params.x), y: Number(params.y) };
+    if (!isValidTile(tile)) {
+        return NextResponse.json({ error: `Invalid tile: expected z 0-${KOPPEN_MAX_ZOOM} with x and y in 0..2^z-1` }, { status: 400 });
+    }
+
+    try {
+        const ids = await fetchKoppenTile(tile);
+        return new Response(Buffer.from(ids), {
+            headers: { 'Content-Type': 'application/octet-stream', 'Cache-Control': 'public, max-age=86400' },
+        });
+    } catch (error) {
+        if (error instanceof KoppenTileError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Köppen tile failed:', error);
+        return NextResponse.json({ error: 'Unknown server error' }, { status: 500 });
+    }
+}
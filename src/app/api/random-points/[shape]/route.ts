@@ -1,101 +1,72 @@
 import { NextResponse } from "next/server.js";
 import type { NextRequest } from "next/server.js";
-
-// Basic types
-type Point = [number, number]; // [lat, lng]
-
-// Utilities
-const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
-const deg2rad = (d: number) => (d * Math.PI) / 180;
-const rad2deg = (r: number) => (r * 180) / Math.PI;
-
-function pointInPolygon(point: Point, polygon: Point[]): boolean {
-  // Ray casting algorithm
-  const [x, y] = [point[1], point[0]]; // treat lng as x, lat as y
-  let inside = false;
-  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-    const xi = polygon[i][1], yi = polygon[i][0];
-    const xj = polygon[j][1], yj = polygon[j][0];
-    const intersect = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
-    if (intersect) inside = !inside;
-  }
-  return inside;
-}
-
-function randomPointsInRectangle(ne: Point, sw: Point, count: number): Point[] {
-  const latMin = Math.min(ne[0], sw[0]);
-  const latMax = Math.max(ne[0], sw[0]);
-  let lngMin = Math.min(ne[1], sw[1]);
-  let lngMax = Math.max(ne[1], sw[1]);
-
-  // If rectangle crosses antimeridian, fallback to simple non-crossing assumption
-  // (could be extended to support antimeridian properly)
-  const result: Point[] = [];
-  for (let i = 0; i < count; i++) {
-    const lat = latMin + Math.random() * (latMax - latMin);
-    const lng = lngMin + Math.random() * (lngMax - lngMin);
-    result.push([lat, lng]);
-  }
-  return result;
-}
-
-function randomPointsInCircle(center: Point, radiusMeters: number, count: number): Point[] {
-  const [lat1Deg, lon1Deg] = center;
-  const lat1 = deg2rad(lat1Deg);
-  const lon1 = deg2rad(lon1Deg);
-  const R = 6371000; // Earth radius in meters
-
-  const pts: Point[] = [];
-  for (let i = 0; i < count; i++) {
-    const u = Math.random();
-    const v = Math.random();
-    const w = radiusMeters * Math.sqrt(u); // radial distance
-    const t = 2 * Math.PI * v; // angle
-    const delta = w / R; // angular distance
-
-    const lat2 = Math.asin(
-      Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(t)
-    );
-    const lon2 =
-      lon1 + Math.atan2(
-        Math.sin(t) * Math.sin(delta) * Math.cos(lat1),
-        Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
-      );
-
-    pts.push([rad2deg(lat2), rad2deg(lon2)]);
-  }
-  return pts;
-}
-
-function randomPointsInPolygon(polygon: Point[], count: number): Point[] {
-  // Bounding box for rejection sampling
-  let latMin = Infinity, latMax = -Infinity, lngMin = Infinity, lngMax = -Infinity;
-  polygon.forEach(([lat, lng]) => {
-    latMin = Math.min(latMin, lat);
-    latMax = Math.max(latMax, lat);
-    lngMin = Math.min(lngMin, lng);
-    lngMax = Math.max(lngMax, lng);
-  });
-
-  const points: Point[] = [];
-  let attempts = 0;
-  const maxAttempts = count * 1000; // safety bound
-
-  while (points.length < count && attempts < maxAttempts) {
-    attempts++;
-    const lat = latMin + Math.random() * (latMax - latMin);
-    const lng = lngMin + Math.random() * (lngMax - lngMin);
-    const p: Point = [lat, lng];
-    if (pointInPolygon(p, polygon)) points.push(p);
-  }
-  return points;
-}
-
+import {
+  clamp,
+  corridorRing,
+  createRng,
+  OUTPUT_FORMATS,
+  pointsToGeoJson,
+  polygonsFromGeoJson,
+  randomPointsInCircle,
+  randomPointsInEllipse,
+  randomPointsInPolygon,
+  randomPointsInPolygons,
+  randomPointsInRectangle,
+  randomSeed,
+  SAMPLING_MODES,
+  SAMPLING_STRATEGIES,
+  SamplingError,
+  serializePoints,
+  type OutputFormat,
+  type Point,
+  type SampleOptions,
+  type SampleResult,
+  type SamplingMode,
+  type SamplingStrategy,
+} from "@/lib/sampling";
+
+/**
+ * Samples random points inside a rectangle, circle, ellipse, polygon or
+ * corridor (a polyline buffered by `buffer` metres each side), or any
+ * GeoJSON Polygon/MultiPolygon (holes included) posted to `geojson`. Shapes may
+ * cross the antimeridian; returned longitudes are always within [-180, 180).
+ * `?mode=equal-area` makes the draw uniform on the sphere rather than in
+ * lat/lng (the default, `planar`).
+ *
+ * `?strategy=` picks uniform (default), stratified, poisson-disk (with
+ * `?spacing=` metres, or a spacing derived from area and count) or grid.
+ * Every response carries the `seed` used; pass it back as `?seed=` to get
+ * the same points again. `meta` reports requested vs produced points, the
+ * area sampled and any warnings about the input.
+ *
+ * `?format=geojson|csv|wkt` returns the points in that format instead; CSV
+ * and WKT carry the seed and meta in X-Sampling-Seed / X-Sampling-Meta,
+ * percent-encoded since header values must be Latin-1.
+ */
 export async function POST(req: NextRequest, context: { params: Promise<{ shape: string }> }) {
   try {
     const { shape } = await context.params;
     const url = new URL(req.url);
     const count = clamp(Number(url.searchParams.get("count") || "100"), 1, 5000);
+    const mode = (url.searchParams.get("mode") || "planar") as SamplingMode;
+    if (!SAMPLING_MODES.includes(mode)) {
+      return NextResponse.json({ error: `Invalid mode: expected one of ${SAMPLING_MODES.join(", ")}` }, { status: 400 });
+    }
+    const strategy = (url.searchParams.get("strategy") || "uniform") as SamplingStrategy;
+    if (!SAMPLING_STRATEGIES.includes(strategy)) {
+      return NextResponse.json({ error: `Invalid strategy: expected one of ${SAMPLING_STRATEGIES.join(", ")}` }, { status: 400 });
+    }
+    const spacingParam = url.searchParams.get("spacing");
+    const spacingMeters = spacingParam === null ? undefined : Number(spacingParam);
+    if (spacingMeters !== undefined && !(Number.isFinite(spacingMeters) && spacingMeters > 0)) {
+      return NextResponse.json({ error: "Invalid spacing: expected a positive number of meters" }, { status: 400 });
+    }
+    const format = (url.searchParams.get("format") || "json") as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Invalid format: expected one of ${OUTPUT_FORMATS.join(", ")}` }, { status: 400 });
+    }
+    const seed = url.searchParams.get("seed") || randomSeed();
+    const options: SampleOptions = { mode, strategy, spacingMeters, rng: createRng(seed) };
 
     let body: any = {};
     try {
@@ -104,37 +75,71 @@ export async function POST(req: NextRequest, context: { params: Promise<{ shape:
       // ignore empty body
     }
 
+    let result: SampleResult;
     if (shape === "rectangle") {
       const ne = body?.ne as Point | undefined;
       const sw = body?.sw as Point | undefined;
       if (!ne || !sw || !Array.isArray(ne) || !Array.isArray(sw)) {
         return NextResponse.json({ error: "Invalid rectangle payload: expected { ne:[lat,lng], sw:[lat,lng] }" }, { status: 400 });
       }
-      const points = randomPointsInRectangle(ne, sw, count);
-      return NextResponse.json({ points });
-    }
-
-    if (shape === "circle") {
+      result = randomPointsInRectangle(ne, sw, count, options);
+    } else if (shape === "circle") {
       const center = body?.center as Point | undefined;
       const radius = Number(body?.radius ?? 0);
       if (!center || !Array.isArray(center) || !Number.isFinite(radius) || radius <= 0) {
         return NextResponse.json({ error: "Invalid circle payload: expected { center:[lat,lng], radius:number }" }, { status: 400 });
       }
-      const points = randomPointsInCircle(center, radius, count);
-      return NextResponse.json({ points });
-    }
-
-    if (shape === "polygon") {
+      result = randomPointsInCircle(center, radius, count, options);
+    } else if (shape === "ellipse") {
+      const center = body?.center as Point | undefined;
+      const semiMajor = Number(body?.semiMajor ?? 0);
+      const semiMinor = Number(body?.semiMinor ?? 0);
+      const bearing = Number(body?.bearing ?? 0);
+      if (!center || !Array.isArray(center) || !(semiMajor > 0) || !(semiMinor > 0) || semiMinor > semiMajor || !Number.isFinite(bearing)) {
+        return NextResponse.json({ error: "Invalid ellipse payload: expected { center:[lat,lng], semiMajor:number, semiMinor:number <= semiMajor, bearing?:degrees }" }, { status: 400 });
+      }
+      result = randomPointsInEllipse(center, semiMajor, semiMinor, bearing, count, options);
+    } else if (shape === "corridor") {
+      const line = body?.line as Point[] | undefined;
+      const buffer = Number(body?.buffer ?? 0);
+      if (!line || !Array.isArray(line) || line.length < 2 || !Number.isFinite(buffer) || buffer <= 0) {
+        return NextResponse.json({ error: "Invalid corridor payload: expected { line:[[lat,lng], ...] } with >= 2 vertices and buffer:number" }, { status: 400 });
+      }
+      result = randomPointsInPolygon(corridorRing(line, buffer), count, options);
+    } else if (shape === "polygon") {
       const pointsIn = body?.points as Point[] | undefined;
       if (!pointsIn || !Array.isArray(pointsIn) || pointsIn.length < 3) {
         return NextResponse.json({ error: "Invalid polygon payload: expected { points:[[lat,lng], ...] } with >= 3 vertices" }, { status: 400 });
       }
-      const points = randomPointsInPolygon(pointsIn, count);
-      return NextResponse.json({ points });
+      result = randomPointsInPolygon(pointsIn, count, options);
+    } else if (shape === "geojson") {
+      result = randomPointsInPolygons(polygonsFromGeoJson(body), count, options);
+    } else {
+      return NextResponse.json({ error: `Unsupported shape: ${shape}` }, { status: 404 });
     }
 
-    return NextResponse.json({ error: `Unsupported shape: ${shape}` }, { status: 404 });
+    const { points, meta } = result;
+    if (format === "json") {
+      return NextResponse.json({ points, seed, meta });
+    }
+    if (format === "geojson") {
+      // Foreign members, allowed by RFC 7946, keep seed and meta alongside the features.
+      return NextResponse.json({ ...pointsToGeoJson(points), seed, meta }, {
+        headers: { "Content-Type": "application/geo+json" },
+      });
+    }
+    const { body: text, contentType } = serializePoints(points, format);
+    return new NextResponse(text, {
+      headers: {
+        "Content-Type": contentType,
+        "X-Sampling-Seed": encodeURIComponent(seed),
+        "X-Sampling-Meta": encodeURIComponent(JSON.stringify(meta)),
+      },
+    });
   } catch (err: any) {
+    if (err instanceof SamplingError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
     return NextResponse.json({ error: err?.message || "Internal error" }, { status: 500 });
   }
 }
@@ -12,12 +12,8 @@ import NavBar from '@/components/NavBar';
 import RouteLoading from './loading';
 import DrawingTools from '@/components/map/DrawingTools';
 import { PlaceAutocomplete } from '@/components/map/PlaceAutocomplete';
-
-type AppConfig = {
-  googleMapsApiKey: string;
-  apiUrl: string;
-  mapId: string;
-};
+import type { PublicConfig as AppConfig } from '@/lib/config';
+import { decodePermalink, type MapPermalink } from '@/lib/permalink';
 
 export default function Map2Page(): React.ReactElement {
   const [config, setConfig] = useState<AppConfig | null>(null);
@@ -25,6 +21,8 @@ export default function Map2Page(): React.ReactElement {
   const [error, setError] = useState<string | null>(null);
   const [darkMode, setDarkMode] = useState<boolean>(true);
   const [selectedPlace, setSelectedPlace] = useState<google.maps.places.PlaceResult | null>(null);
+  // Shared links carry the view, month/year and areas in the query string
+  const [permalink, setPermalink] = useState<MapPermalink | null>(null);
   
   const mapRef = useRef<google.maps.Map | null>(null);
 
@@ -47,10 +45,14 @@ export default function Map2Page(): React.ReactElement {
   }, []);
 
   useEffect(() => {
+    setPermalink(decodePermalink(window.location.search));
     const fetchConfig = async () => {
       try {
         const response = await fetch('/api/config');
-        if (!response.ok) throw new Error('Failed to fetch configuration');
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error || 'Failed to fetch configuration');
+        }
         const data: AppConfig = await response.json();
         setConfig(data);
       } catch (err) {
@@ -79,8 +81,8 @@ export default function Map2Page(): React.ReactElement {
         />
         
         <GoogleMap
-          defaultZoom={7}
-          defaultCenter={{ lat: 36.77, lng: -119.4 }}
+          defaultZoom={permalink?.zoom ?? 7}
+          defaultCenter={permalink?.center ?? { lat: 36.77, lng: -119.4 }}
           gestureHandling="greedy"
           mapId={config.mapId}
           colorScheme={darkMode ? "DARK": "LIGHT"}
@@ -89,7 +91,7 @@ export default function Map2Page(): React.ReactElement {
           <DrawingTools 
             darkMode={darkMode} 
             onToggleDarkMode={toggleDarkMode}
-            apiUrl={config.apiUrl}
+            permalink={permalink}
           />
           
           {selectedPlace && <AdvancedMarker position={selectedPlace.geometry?.location} />}
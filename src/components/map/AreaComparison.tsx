@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState } from 'react';
+import { compareAreas, type PresenceRow } from '@/lib/analysis/compare';
+import type { AnalysisResult } from '@/lib/analysis/types';
+
+interface AreaComparisonProps {
+  areas: { id: string; name: string; color: string; result: AnalysisResult }[];
+  onClose: () => void;
+}
+
+type RowFilter = 'all' | 'shared' | 'unique';
+
+function PresenceTable({ title, rows, areas, filter }: { title: string; rows: PresenceRow[]; areas: AreaComparisonProps['areas']; filter: RowFilter }) {
+  const visible = rows.filter((r) => filter === 'all' || (filter === 'shared' ? r.shared : r.unique));
+  return (
+    <div className="compare-section">
+      <div className="compare-section-title">{title} ({visible.length})</div>
+      {visible.length === 0 ? (
+        <div className="compare-empty">None.</div>
+      ) : (
+        <div className="compare-scroll">
+          <table className="compare-table">
+            <thead>
+              <tr>
+                <th />
+                {areas.map((a) => <th key={a.id}><span className="compare-dot" style={{ background: a.color }} />{a.name}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((row) => (
+                <tr key={row.key} className={row.shared ? 'shared' : row.unique ? 'unique' : ''}>
+                  <td title={row.key}>{row.label}</td>
+                  {areas.map((a, i) => (
+                    <td key={a.id} className="compare-cell">
+                      {row.areas.includes(i) ? (row.detail[i] || '✓') : '—'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AreaComparison({ areas, onClose }: AreaComparisonProps) {
+  const [filter, setFilter] = useState<RowFilter>('all');
+  const comparison = compareAreas(areas.map(({ name, result }) => ({ name, result })));
+
+  const metric = (label: string, value: (i: number) => React.ReactNode) => (
+    <tr>
+      <td>{label}</td>
+      {areas.map((a, i) => <td key={a.id} className="compare-cell">{value(i)}</td>)}
+    </tr>
+  );
+  const climate = (i: number, key: 'temperature' | 'precipitation' | 'radiation', unit: string) => {
+    const c = comparison.areas[i].climate;
+    return c ? `${c[key]} ${unit}` : '—';
+  };
+
+  return (
+    <div className="compare-backdrop" onClick={onClose}>
+      <div className="compare-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="compare-header">
+          <div className="compare-title">Compare areas</div>
+          <button className="compare-close" onClick={onClose}>×</button>
+          <div className="compare-legend">
+            <span className="compare-key shared">In every area</span>
+            <span className="compare-key unique">Only in one area</span>
+            <label>
+              Show:
+              <select value={filter} onChange={(e) => setFilter(e.target.value as RowFilter)}>
+                <option value="all">All</option>
+                <option value="shared">Shared</option>
+                <option value="unique">Unique</option>
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="compare-section">
+          <div className="compare-section-title">Overview</div>
+          <div className="compare-scroll">
+            <table className="compare-table">
+              <thead>
+                <tr>
+                  <th />
+                  {areas.map((a) => <th key={a.id}><span className="compare-dot" style={{ background: a.color }} />{a.name}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {metric('Biomes', (i) => comparison.areas[i].biomes.map((b) => (
+                  <div key={b.biome} className={comparison.sharedBiomes.includes(b.biome) ? 'compare-biome shared' : 'compare-biome'}>
+                    {b.biome_name} <em>({b.biome})</em>
+                  </div>
+                )))}
+                {metric('Temperature', (i) => climate(i, 'temperature', '°C'))}
+                {metric('Precipitation', (i) => climate(i, 'precipitation', 'mm/day'))}
+                {metric('Radiation', (i) => climate(i, 'radiation', 'W/m²'))}
+                {metric('Species', (i) => comparison.areas[i].speciesCount)}
+                {metric('Pests', (i) => comparison.areas[i].pestCount)}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <PresenceTable title="Predicted species" rows={comparison.species} areas={areas} filter={filter} />
+        <PresenceTable title="Predicted pests" rows={comparison.pests} areas={areas} filter={filter} />
+      </div>
+      <style>{`
+        .compare-backdrop { position: fixed; inset: 0; background: rgba(0,0,0,.55); backdrop-filter: blur(2px); z-index: 4000; display: grid; place-items: center; }
+        .compare-modal { width: min(96vw, 1040px); max-height: 86vh; overflow: hidden auto; color: #fff; background: linear-gradient(180deg,#0f172a 0%, #111827 100%); border-radius: 16px; box-shadow: 0 18px 42px rgba(0,0,0,.45); border: 1px solid rgba(255,255,255,0.08); }
+        .compare-header { position: sticky; top: 0; z-index: 1; padding: 16px; background: #0f172a; border-bottom: 1px solid rgba(255,255,255,0.08); }
+        .compare-title { font-weight: 800; font-size: 18px; }
+        .compare-close { position: absolute; right: 12px; top: 12px; width: 32px; height: 32px; border-radius: 8px; border: 1px solid rgba(255,255,255,.12); background: rgba(255,255,255,.06); color: #fff; font-size: 20px; line-height: 28px; cursor: pointer; }
+        .compare-legend { display: flex; gap: 10px; align-items: center; margin-top: 8px; font-size: 12px; color: rgba(255,255,255,.75); }
+        .compare-legend select { margin-left: 6px; background: #1f2937; color: #fff; border: 1px solid #374151; border-radius: 6px; padding: 2px 6px; font-size: 12px; }
+        .compare-key { padding: 2px 8px; border-radius: 999px; border: 1px solid; }
+        .compare-key.shared, .compare-table tr.shared td:first-child, .compare-biome.shared { color: #6ee7b7; border-color: rgba(16,185,129,.4); }
+        .compare-key.unique, .compare-table tr.unique td:first-child { color: #fcd34d; border-color: rgba(245,158,11,.4); }
+        .compare-section { padding: 10px 16px 14px; }
+        .compare-section-title { font-size: 12px; color: rgba(255,255,255,.7); margin-bottom: 8px; text-transform: uppercase; letter-spacing: .06em; }
+        .compare-scroll { max-height: 320px; overflow: auto; }
+        .compare-table { width: 100%; border-collapse: collapse; font-size: 12px; }
+        .compare-table th { position: sticky; top: 0; background: #111827; text-align: left; font-weight: 700; padding: 6px 8px; border-bottom: 1px solid rgba(255,255,255,.12); white-space: nowrap; }
+        .compare-table td { padding: 5px 8px; border-bottom: 1px solid rgba(255,255,255,.06); vertical-align: top; }
+        .compare-table tr.shared { background: rgba(16,185,129,.08); }
+        .compare-table tr.unique { background: rgba(245,158,11,.08); }
+        .compare-cell { color: #d1d5db; }
+        .compare-biome em { color: #93c5fd; font-style: normal; }
+        .compare-dot { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 6px; }
+        .compare-empty { font-size: 12px; color: #9ca3af; }
+      `}</style>
+    </div>
+  );
+}
+
+export default AreaComparison;
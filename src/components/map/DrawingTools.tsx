@@ -1,59 +1,202 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useMap, AdvancedMarker, InfoWindow } from '@vis.gl/react-google-maps';
 import FLOWER_PIN from './flower pin.gif';
+import ProgressiveText from './ProgressiveText';
+import AreaComparison from './AreaComparison';
+import HistoryDrawer from './HistoryDrawer';
+import KoppenOverlay from './KoppenOverlay';
+import PhenologyCalendar from './PhenologyCalendar';
+import YearComparison from './YearComparison';
+import { readNdjson } from '@/lib/ndjson';
+import { DEFAULT_LOCALE, LOCALE_NAMES, SUPPORTED_LOCALES, normalizeLocale, type Locale } from '@/lib/summaries/locale';
+import type { Citation } from '@/lib/summaries/facts';
+import type { AnalysisErrorBody, AnalysisRequest, AnalysisResult, BiomeResult, Pest, Species } from '@/lib/analysis/types';
+import type { MonthlyResult } from '@/lib/analysis/calendar';
+import { parseScenarioYears, type YearResult } from '@/lib/analysis/scenarios';
+import { analysisReportHtml, analysisToCsv, analysisToGeoJson, exportFileName, type AnalysisExport } from '@/lib/analysis/export';
+import { corridorRing, ellipseRing } from '@/lib/sampling/outlines';
+import { boundsOf, normalizeLng, unwrapPath } from '@/lib/sampling/geo';
+import { polygonsToGeoJson } from '@/lib/sampling/geojson';
+import { GEOMETRY_LIMITS, haversineM, simplifyToLimit, validateGeometry, type GeometryReport } from '@/lib/geometry';
+import { encodePermalink, type MapPermalink } from '@/lib/permalink';
+import { createIndexedDbHistory, type HistoryStore, type SavedAnalysis } from '@/lib/history';
+import { koppenByCode } from '@/lib/koppen/classes';
+import { BOUNDARY_FILE_ACCEPT, BoundaryFileError, groupRings, readBoundaryFile, vertexCount, type BoundaryFeature } from '@/lib/boundaries';
 
 // --- Type Definitions ---
 interface DrawingToolsProps {
   darkMode: boolean;
   onToggleDarkMode: () => void;
-  apiUrl: string;
+  // State read from the page URL; its areas are drawn once the map is ready
+  permalink?: MapPermalink | null;
 }
-interface Species {
-  scientific_name: string;
-  common_name: string;
-  phenophase: string;
-  timing_prediction?: string; // <-- MODIFIED: Added new optional field
+type BiomeSummaryEvent = { biome: string; summary?: string; citations?: Citation[]; error?: string };
+type YearEvent = { month: number; year: number; result: AnalysisResult; cached: boolean } | { month: number; year: number; error: string; problems?: string[] };
+// The whole-year calendar being filled in; month 0 in `errors` is a failure before any month ran
+interface YearView {
+  // Distinguishes runs, so a closed calendar's late months do not land in a new one
+  run: number;
+  areaName: string;
+  year: number;
+  months: MonthlyResult[];
+  errors: { month: number; error: string }[];
+  pending: number;
 }
-interface Pest {
-  scientific_name_pest: string;
-  common_name_pest: string;
+// The same month over several years; year 0 in `errors` is a failure before any year ran
+interface ScenarioView {
+  run: number;
+  areaName: string;
+  month: number;
+  years: number[];
+  runs: YearResult[];
+  errors: { year: number; error: string }[];
+  pending: number;
 }
-interface BiomeResult {
-  biome: string;
-  biome_name: string;
-  location: { lat: number; lng: number; };
-  climate_data: { temperature: number; precipitation: number; radiation: number; };
-  species: Species[];
-  pests: Pest[];
+
+const SHAPE_STYLE = { fillColor: '#8ab4f8', fillOpacity: 0.2, strokeWeight: 2, strokeColor: '#8ab4f8', clickable: true };
+const toPoint = (p: google.maps.LatLng): [number, number] => [p.lat(), p.lng()];
+const toLatLng = ([lat, lng]: [number, number]) => ({ lat, lng });
+// Overviews are written for one area's climate and species, so they are kept per area and biome
+const overviewKey = (areaId: string, biome: string) => `${areaId}::${biome}`;
+
+// One named area on the map, analysed on its own and compared with the others
+interface Area {
+  id: string;
+  name: string;
+  color: string;
+  // The outline that is analysed comes first; anything after it (a corridor's centre line) is a guide
+  overlays: google.maps.MVCObject[];
+  result: AnalysisResult | null;
+  // What the result was computed for; the inputs may have changed since
+  request?: AnalysisRequest;
+  // The history entry the result is saved as; kept up to date with name and summaries
+  historyId?: string;
+  loading: boolean;
+  error?: string;
+}
+const AREA_COLORS = ['#8ab4f8', '#f472b6', '#34d399', '#fbbf24', '#a78bfa', '#f87171', '#22d3ee', '#fb923c'];
+
+// Imported outlines above this many vertices are drawn read-only: editing them in the map is unusably slow
+const MAX_EDITABLE_VERTICES = 5000;
+
+// A feature read from an imported file, checked before it is put on the map
+interface ImportCandidate {
+  feature: BoundaryFeature;
+  report: GeometryReport;
+  vertices: number;
+  selected: boolean;
+}
+
+// The outline of a drawn overlay as [lat, lng] pairs; circles become 32-gons
+function shapePoints(shape: google.maps.MVCObject): [number, number][] {
+  const points: [number, number][] = [];
+  if (shape instanceof google.maps.Polygon) {
+    const path = shape.getPath();
+    for (let i = 0; i < path.getLength(); i++) {
+      const p = path.getAt(i);
+      if (p) points.push([p.lat(), p.lng()]);
+    }
+  } else if (shape instanceof google.maps.Rectangle) {
+    const bounds = shape.getBounds();
+    if (bounds) {
+      const ne = bounds.getNorthEast();
+      const sw = bounds.getSouthWest();
+      points.push([ne.lat(), ne.lng()], [ne.lat(), sw.lng()], [sw.lat(), sw.lng()], [sw.lat(), ne.lng()]);
+    }
+  } else if (shape instanceof google.maps.Circle) {
+    const center = shape.getCenter();
+    const radius = shape.getRadius();
+    if (center && radius) {
+      for (let i = 0; i < 32; i++) {
+        const point = google.maps.geometry.spherical.computeOffset(center, radius, (i / 32) * 360);
+        if (point) points.push([point.lat(), point.lng()]);
+      }
+    }
+  }
+  return points;
 }
-interface AnalysisResult {
-  results: BiomeResult[];
+
+// Every path of a polygon (imported outlines have holes and parts); other shapes as their single outline
+function shapePaths(shape: google.maps.MVCObject): [number, number][][] {
+  const paths = shape instanceof google.maps.Polygon
+    ? shape.getPaths().getArray().map(path => path.getArray().map(toPoint))
+    : [shapePoints(shape)];
+  return paths.filter(path => path.length >= 3);
+}
+
+function Citations({ items }: { items?: Citation[] }) {
+  if (!items || items.length === 0) return null;
+  return (
+    <details className="citations">
+      <summary>Sources ({items.length})</summary>
+      <ol>
+        {items.map((c, i) => (
+          <li key={i}><span className="citation-source">{c.source}</span> {c.fact}</li>
+        ))}
+      </ol>
+    </details>
+  );
 }
 
-function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps) {
+function DrawingTools({ darkMode, onToggleDarkMode, permalink }: DrawingToolsProps) {
   const map = useMap();
   const [drawingManager, setDrawingManager] = useState<google.maps.drawing.DrawingManager | null>(null);
-  const [shapes, setShapes] = useState<google.maps.MVCObject[]>([]);
+  const [areas, setAreas] = useState<Area[]>([]);
+  const [activeAreaId, setActiveAreaId] = useState<string | null>(null);
+  const [compareOpen, setCompareOpen] = useState<boolean>(false);
+  const [koppenVisible, setKoppenVisible] = useState<boolean>(false);
+  const areaCounter = useRef(0);
+  // Features from the last imported file, waiting for the user to pick which to add
+  const [importFile, setImportFile] = useState<{ name: string; candidates: ImportCandidate[]; skipped: string[] } | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Areas restored from a link with run=1, analysed on the render after they exist
+  const [autoRunIds, setAutoRunIds] = useState<string[] | null>(null);
+  const [linkAutoRun, setLinkAutoRun] = useState<boolean>(false);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const permalinkRestored = useRef(false);
+  // Finished analyses saved in this browser, newest first
+  const historyStore = useRef<HistoryStore | null>(null);
+  const [history, setHistory] = useState<SavedAnalysis[]>([]);
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false);
+  const [yearView, setYearView] = useState<YearView | null>(null);
+  const yearRun = useRef(0);
+  const [scenarioYears, setScenarioYears] = useState<string>('2000, 2025, 2050');
+  const [scenarioView, setScenarioView] = useState<ScenarioView | null>(null);
+  const scenarioRun = useRef(0);
   const [selectedTool, setSelectedTool] = useState<string>('select');
+  // Metres either side of the line for the corridor tool; read from a ref inside the map listener
+  const [corridorBuffer, setCorridorBuffer] = useState<number>(100);
+  const corridorBufferRef = useRef(corridorBuffer);
+  corridorBufferRef.current = corridorBuffer;
 
-  const [analysisMonth, setAnalysisMonth] = useState<number>(new Date().getMonth() + 1);
-  const [analysisYear, setAnalysisYear] = useState<number>(new Date().getFullYear() + 1);
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [isLoadingAnalysis, setIsLoadingAnalysis] = useState<boolean>(false);
+  const [analysisMonth, setAnalysisMonth] = useState<number>(permalink?.month ?? new Date().getMonth() + 1);
+  const [analysisYear, setAnalysisYear] = useState<number>(permalink?.year ?? new Date().getFullYear() + 1);
+  const activeArea = areas.find(a => a.id === activeAreaId) ?? null;
+  const isLoadingAnalysis = areas.some(a => a.loading);
+  const analysedAreas = areas.filter((a): a is Area & { result: AnalysisResult } => a.result !== null);
   const [modalOpen, setModalOpen] = useState<boolean>(false);
   const [selectedBiome, setSelectedBiome] = useState<BiomeResult | null>(null);
+  const [selectedBiomeAreaId, setSelectedBiomeAreaId] = useState<string | null>(null);
 
   // --- State management for TWO types of summaries ---
-  const [biomeSummaryMap, setBiomeSummaryMap] = useState<Record<string, string>>({}); // For overall biome overviews
-  const [isBiomeSummaryLoading, setIsBiomeSummaryLoading] = useState<boolean>(false); // Loading state for overviews
+  const [biomeSummaryMap, setBiomeSummaryMap] = useState<Record<string, string>>({}); // For overall biome overviews, keyed by overviewKey
+  const [overviewsLoading, setOverviewsLoading] = useState<Record<string, boolean>>({}); // Loading state for overviews, per area id
+  const overviewRequests = useRef(new Map<string, number>()); // Latest overview request per area; older streams are ignored
 
   const [detailSummaryMap, setDetailSummaryMap] = useState<Record<string, string>>({}); // Handles both species and pests
   const [isDetailSummaryLoading, setIsDetailSummaryLoading] = useState<boolean>(false); // Loading state for a specific detail
 
   const [activeDetailKey, setActiveDetailKey] = useState<string | null>(null); // Handles both species and pests
 
+  // Facts each summary was grounded in, keyed like the summary maps (biome overviews as `biome::<area id>::<code>`)
+  const [citationMap, setCitationMap] = useState<Record<string, Citation[]>>({});
+
+  // Language the AI summaries are written in; remembered across visits
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+
   // --- State for hover info window ---
   const [hoveredBiomeKey, setHoveredBiomeKey] = useState<string | null>(null);
 
@@ -63,6 +206,19 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
   const [tourIndex, setTourIndex] = useState(0);
   const [tourRect, setTourRect] = useState<{ top: number; left: number; width: number; height: number } | null>(null);
 
+  useEffect(() => {
+    try {
+      setLocale(normalizeLocale(localStorage.getItem('summary_locale')));
+    } catch { }
+  }, []);
+
+  const changeLocale = (next: Locale) => {
+    try { localStorage.setItem('summary_locale', next); } catch { }
+    setLocale(next);
+    setBiomeSummaryMap({});
+    analysedAreas.forEach(a => fetchBiomeSummaries(a.id, a.result.results, next));
+  };
+
   // Initialize tour steps after mount
   useEffect(() => {
     try {
@@ -74,12 +230,16 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
     } catch { }
 
     const defs = [
-      { selector: '[data-tour="tools-shapes-group"]', title: 'Draw tools', content: 'Use Rectangle, Circle, or Polygon to draw an area for analysis.' },
-      { selector: '[data-tour="tool-clear"]', title: 'Clear', content: 'Remove the drawn shape and reset the analysis.' },
+      { selector: '[data-tour="tools-shapes-group"]', title: 'Draw tools', content: 'Use Rectangle, Circle, Ellipse, Polygon or Lasso to draw an area for analysis. Ellipse and Lasso are drawn by dragging; Corridor buffers a line you draw, for roadsides and rivers.' },
+      { selector: '[data-tour="tool-import"]', title: 'Import', content: 'Load boundaries from a GeoJSON, KML/KMZ or zipped shapefile, then pick which features to add as areas.' },
+      { selector: '[data-tour="tool-history"]', title: 'History', content: 'Every analysis is saved in this browser. Reopen, rename or delete one, or re-run it against the current models to see what changed.' },
+      { selector: '[data-tour="tool-clear"]', title: 'Clear', content: 'Remove every drawn area and its analysis.' },
+      { selector: '[data-tour="tool-koppen"]', title: 'Climate Classes', content: 'Show Köppen–Geiger climate classes on the map, with a legend; hover anywhere to read the class before running an analysis.' },
       { selector: '[data-tour="tool-theme"]', title: 'Theme', content: 'Toggle between dark and light map themes.' },
       { selector: '[data-tour="tools-zoom-group"]', title: 'Zoom', content: 'Use + and − to zoom the map.' },
       { selector: '[data-tour="input-time"]', title: 'Time', content: 'Select the month and year for the ecology analysis.' },
-      { selector: '[data-tour="run-analysis"]', title: 'Run Analysis', content: 'Run the ecology analysis for the selected shape and time.' },
+      { selector: '[data-tour="areas-list"]', title: 'Areas', content: 'Each shape you draw becomes a named area. Click one to select it, rename it, or remove it.' },
+      { selector: '[data-tour="run-analysis"]', title: 'Run Analysis', content: 'Run the ecology analysis for the selected area, or for every area at once, then compare them side by side. Whole year runs all twelve months and shows a phenology calendar; Compare years runs this month for each year listed and shows what changed.' },
     ];
     const available = defs
       .map((d) => ({ ...d, el: document.querySelector(d.selector) as HTMLElement | null }))
@@ -127,24 +287,96 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
     const manager = new google.maps.drawing.DrawingManager({
       drawingMode: null,
       drawingControl: false,
-      polygonOptions: { fillColor: '#8ab4f8', fillOpacity: 0.2, strokeWeight: 2, strokeColor: '#8ab4f8', clickable: true, editable: true },
-      rectangleOptions: { fillColor: '#8ab4f8', fillOpacity: 0.2, strokeWeight: 2, strokeColor: '#8ab4f8', clickable: true, editable: true },
-      circleOptions: { fillColor: '#8ab4f8', fillOpacity: 0.2, strokeWeight: 2, strokeColor: '#8ab4f8', clickable: true, editable: true },
+      polygonOptions: { ...SHAPE_STYLE, editable: true },
+      rectangleOptions: { ...SHAPE_STYLE, editable: true },
+      circleOptions: { ...SHAPE_STYLE, editable: true },
+      polylineOptions: { strokeWeight: 2, strokeColor: '#f59e0b', clickable: false },
     });
     manager.setMap(map);
     setDrawingManager(manager);
 
     const onShapeComplete = (event: google.maps.drawing.OverlayCompleteEvent) => {
-      shapes.forEach(s => (s as any).setMap(null));
-      const newShape = event.overlay;
-      setShapes([newShape]);
       manager.setDrawingMode(null);
       setSelectedTool('select');
+
+      if (event.type !== google.maps.drawing.OverlayType.POLYLINE) {
+        addArea([event.overlay]);
+        return;
+      }
+      // Corridor: the buffered outline is the shape analysed; the line stays on top as a guide.
+      const line = event.overlay as google.maps.Polyline;
+      try {
+        const ring = corridorRing(line.getPath().getArray().map(toPoint), corridorBufferRef.current);
+        const outline = new google.maps.Polygon({ ...SHAPE_STYLE, paths: ring.map(toLatLng), map });
+        addArea([outline, line]);
+      } catch (e) {
+        line.setMap(null);
+        alert(e instanceof Error ? e.message : 'Could not build the corridor.');
+      }
     };
 
     const listener = manager.addListener('overlaycomplete', onShapeComplete);
     return () => google.maps.event.removeListener(listener);
-  }, [map, shapes]);
+  }, [map]);
+
+  // Ellipse and lasso are drawn by dragging, which the DrawingManager cannot do:
+  // while one is selected the map stops panning and follows the pointer instead.
+  useEffect(() => {
+    if (!map || (selectedTool !== 'ellipse' && selectedTool !== 'lasso')) return;
+    const gestureHandling = map.get('gestureHandling');
+    map.setOptions({ gestureHandling: 'none', draggableCursor: 'crosshair' });
+
+    let start: google.maps.LatLng | null = null;
+    let trace: google.maps.LatLng[] = [];
+    const preview = new google.maps.Polygon({ ...SHAPE_STYLE, clickable: false, map });
+
+    const ellipseFrom = (a: google.maps.LatLng, b: google.maps.LatLng) => {
+      // Ellipse inscribed in the dragged box, with its long axis north-south or east-west.
+      const { computeDistanceBetween } = google.maps.geometry.spherical;
+      // Unwrapped first so a box dragged across ±180° is centred on the short side
+      const [[, aLng], [, bLng]] = unwrapPath([toPoint(a), toPoint(b)]);
+      const center: [number, number] = [(a.lat() + b.lat()) / 2, normalizeLng((aLng + bLng) / 2)];
+      const northSouth = computeDistanceBetween({ lat: a.lat(), lng: center[1] }, { lat: b.lat(), lng: center[1] }) / 2;
+      const eastWest = computeDistanceBetween({ lat: center[0], lng: a.lng() }, { lat: center[0], lng: b.lng() }) / 2;
+      if (Math.min(northSouth, eastWest) === 0) return [];
+      return ellipseRing(center, Math.max(northSouth, eastWest), Math.min(northSouth, eastWest), northSouth >= eastWest ? 0 : 90).map(toLatLng);
+    };
+
+    const listeners = [
+      map.addListener('mousedown', (e: google.maps.MapMouseEvent) => {
+        if (!e.latLng) return;
+        start = e.latLng;
+        trace = [e.latLng];
+      }),
+      map.addListener('mousemove', (e: google.maps.MapMouseEvent) => {
+        if (!start || !e.latLng) return;
+        if (selectedTool === 'ellipse') {
+          preview.setPath(ellipseFrom(start, e.latLng));
+        } else {
+          trace.push(e.latLng);
+          preview.setPath(trace);
+        }
+      }),
+      map.addListener('mouseup', () => {
+        if (!start) return;
+        start = null;
+        const path = preview.getPath().getArray();
+        preview.setMap(null);
+        if (path.length < 3) {
+          setSelectedTool('select');
+          return;
+        }
+        addArea([new google.maps.Polygon({ ...SHAPE_STYLE, editable: selectedTool === 'lasso', paths: path, map })]);
+        setSelectedTool('select');
+      }),
+    ];
+
+    return () => {
+      listeners.forEach(l => google.maps.event.removeListener(l));
+      preview.setMap(null);
+      map.setOptions({ gestureHandling, draggableCursor: null });
+    };
+  }, [map, selectedTool]);
 
   const handleToolSelect = (tool: string) => {
     if (!drawingManager) return;
@@ -153,14 +385,106 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
       case 'rectangle': drawingManager.setDrawingMode(google.maps.drawing.OverlayType.RECTANGLE); break;
       case 'circle': drawingManager.setDrawingMode(google.maps.drawing.OverlayType.CIRCLE); break;
       case 'polygon': drawingManager.setDrawingMode(google.maps.drawing.OverlayType.POLYGON); break;
+      case 'corridor': drawingManager.setDrawingMode(google.maps.drawing.OverlayType.POLYLINE); break;
       default: drawingManager.setDrawingMode(null);
     }
   };
 
-  const deleteSelectedShape = () => {
-    shapes.forEach(s => (s as any).setMap(null));
-    setShapes([]);
-    setAnalysisResult(null);
+  const addArea = (overlays: google.maps.MVCObject[], name?: string) => {
+    const number = ++areaCounter.current;
+    const color = AREA_COLORS[(number - 1) % AREA_COLORS.length];
+    (overlays[0] as any).setOptions({ fillColor: color, strokeColor: color });
+    const area: Area = { id: `area-${number}`, name: name || `Area ${number}`, color, overlays, result: null, loading: false };
+    setAreas(a => [...a, area]);
+    setActiveAreaId(area.id);
+    return area;
+  };
+
+  const updateArea = (id: string, patch: Partial<Area>) => {
+    setAreas(all => all.map(a => (a.id === id ? { ...a, ...patch } : a)));
+  };
+
+  const removeArea = (id: string) => {
+    const remaining = areas.filter(a => a.id !== id);
+    areas.find(a => a.id === id)?.overlays.forEach(o => (o as any).setMap(null));
+    setAreas(remaining);
+    if (activeAreaId === id) setActiveAreaId(remaining[remaining.length - 1]?.id ?? null);
+  };
+
+  const clearAreas = () => {
+    areas.forEach(a => a.overlays.forEach(o => (o as any).setMap(null)));
+    setAreas([]);
+    setActiveAreaId(null);
+    setCompareOpen(false);
+  };
+
+  const handleImportFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const { features, skipped } = await readBoundaryFile(file);
+      const candidates = features.map((raw) => {
+        // /api/geometry refuses outlines this detailed, so thin them before anything else sees them
+        let feature = raw;
+        if (vertexCount(raw.polygons) > GEOMETRY_LIMITS.maxInputVertices) {
+          const { latMin, latMax, lngMin, lngMax } = boundsOf(raw.polygons.flat(2));
+          const thinned = simplifyToLimit(raw.polygons, GEOMETRY_LIMITS.maxInputVertices, haversineM([latMin, lngMin], [latMax, lngMax]));
+          if (thinned) feature = { ...raw, polygons: thinned.polygons };
+        }
+        const report = validateGeometry(feature.polygons);
+        return { feature, report, vertices: vertexCount(feature.polygons), selected: report.valid };
+      });
+      setImportFile({ name: file.name, candidates, skipped });
+    } catch (e) {
+      alert(e instanceof BoundaryFileError ? e.message : `Could not read ${file.name}.`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const toggleCandidate = (index: number) => {
+    setImportFile(f => f && { ...f, candidates: f.candidates.map((c, i) => (i === index ? { ...c, selected: !c.selected } : c)) });
+  };
+
+  // Each picked feature becomes one area; its polygons and holes are the paths of a single map polygon
+  const addImportedFeatures = () => {
+    if (!map || !importFile) return;
+    const bounds = new google.maps.LatLngBounds();
+    for (const { feature, report, vertices, selected } of importFile.candidates) {
+      if (!selected || report.polygons.length === 0) continue;
+      const paths = report.polygons.flat().map(ring => ring.map(toLatLng));
+      paths.flat().forEach(p => bounds.extend(p));
+      addArea([new google.maps.Polygon({ ...SHAPE_STYLE, editable: vertices <= MAX_EDITABLE_VERTICES, paths, map })], feature.name);
+    }
+    if (!bounds.isEmpty()) map.fitBounds(bounds);
+    setImportFile(null);
+  };
+
+  // Link state: view, month/year and the analysed outline of every area (all paths of a polygon)
+  const handleCopyLink = async () => {
+    if (!map) return;
+    const center = map.getCenter();
+    // Areas without a usable outline are left out, so the selection is indexed among those kept
+    const linked = areas
+      .map(area => ({ id: area.id, name: area.name, paths: shapePaths(area.overlays[0]), editable: !!(area.overlays[0] as google.maps.Polygon).getEditable?.() }))
+      .filter(area => area.paths.length > 0);
+    const params = encodePermalink({
+      center: center ? { lat: center.lat(), lng: center.lng() } : undefined,
+      zoom: map.getZoom(),
+      month: analysisMonth,
+      year: analysisYear,
+      areas: linked.map(({ name, paths, editable }) => ({ name, paths, editable })),
+      selected: linked.findIndex(a => a.id === activeAreaId),
+      autoRun: linkAutoRun,
+    });
+    const url = `${window.location.origin}${window.location.pathname}?${params}`;
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      window.prompt('Copy this link:', url);
+    }
   };
 
   const handleZoom = (delta: number) => {
@@ -170,38 +494,64 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
     map.setZoom(next);
   };
 
-  const fetchBiomeSummaries = async (results: BiomeResult[]) => {
+  // Drops an area's overviews, e.g. once its result has been replaced
+  const forgetOverviews = (areaId: string) => {
+    setBiomeSummaryMap(m => Object.fromEntries(Object.entries(m).filter(([key]) => !key.startsWith(`${areaId}::`))));
+    setCitationMap(m => Object.fromEntries(Object.entries(m).filter(([key]) => !key.startsWith(`biome::${areaId}::`))));
+  };
+
+  const fetchBiomeSummaries = async (areaId: string, results: BiomeResult[], summaryLocale: Locale = locale) => {
     if (!results || results.length === 0) return;
-    setIsBiomeSummaryLoading(true);
+    const request = (overviewRequests.current.get(areaId) ?? 0) + 1;
+    overviewRequests.current.set(areaId, request);
+    const isLatest = () => overviewRequests.current.get(areaId) === request;
+    setOverviewsLoading(l => ({ ...l, [areaId]: true }));
     try {
-      const res = await fetch('/api/biome-summary', {
+      // Streamed as NDJSON so each overview shows up as soon as it is generated
+      const res = await fetch(`/api/biome-summary?stream=1&locale=${summaryLocale}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(results)
       });
       if (!res.ok) throw new Error(await res.text());
-      const data = await res.json();
-      setBiomeSummaryMap(data.summaries || {});
+      await readNdjson<BiomeSummaryEvent>(res, (event) => {
+        if (!isLatest()) return;
+        if (event.summary) {
+          setBiomeSummaryMap((m) => ({ ...m, [overviewKey(areaId, event.biome)]: event.summary! }));
+          setCitationMap((m) => ({ ...m, [`biome::${overviewKey(areaId, event.biome)}`]: event.citations || [] }));
+        } else if (event.error) {
+          console.error(`Failed to generate biome summary for ${event.biome}:`, event.error);
+        }
+      });
     } catch (e) {
       console.error("Failed to fetch biome summaries:", e);
-      alert("Could not load biome overviews. The AI service may be unavailable.");
+      if (isLatest()) alert("Could not load biome overviews. The AI service may be unavailable.");
     } finally {
-      setIsBiomeSummaryLoading(false);
+      if (isLatest()) setOverviewsLoading(l => ({ ...l, [areaId]: false }));
     }
   };
 
-  const fetchDetailSummary = async (item: Species | Pest, biomeName: string) => {
+  const fetchDetailSummary = async (item: Species | Pest, biome: BiomeResult) => {
     let key, endpoint, body;
     const isPest = 'common_name_pest' in item;
+    const biomeName = biome.biome_name;
 
     if (isPest) {
-      key = `pest::${item.common_name_pest}::${biomeName}`;
-      endpoint = '/api/pest-summary';
-      body = JSON.stringify({ pest_name: item.common_name_pest, biome_name: biomeName });
+      key = `pest::${item.common_name_pest}::${biomeName}::${locale}`;
+      endpoint = `/api/pest-summary?locale=${locale}`;
+      body = JSON.stringify({ pest_name: item.common_name_pest, biome_name: biomeName, climate_data: biome.climate_data });
     } else {
-      key = `species::${item.common_name}::${biomeName}`;
-      endpoint = '/api/flower-summary';
-      body = JSON.stringify({ scientific_name: (item as Species).scientific_name, common_name: item.common_name, biome_name: biomeName });
+      const species = item as Species;
+      key = `species::${item.common_name}::${biomeName}::${locale}`;
+      endpoint = `/api/flower-summary?locale=${locale}`;
+      body = JSON.stringify({
+        scientific_name: species.scientific_name,
+        common_name: species.common_name,
+        biome_name: biomeName,
+        phenophase: species.phenophase,
+        timing_prediction: species.timing_prediction,
+        climate_data: biome.climate_data,
+      });
     }
 
     if (!key || detailSummaryMap[key]) return;
@@ -212,6 +562,7 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
       if (!res.ok) throw new Error(await res.text());
       const data = await res.json();
       setDetailSummaryMap((m) => ({ ...m, [key]: data.summary || 'No summary available.' }));
+      setCitationMap((m) => ({ ...m, [key]: data.citations || [] }));
     } catch (e: any) {
       console.error(`Failed to fetch detail summary for ${key}:`, e);
       setDetailSummaryMap((m) => ({ ...m, [key]: 'Summary could not be loaded.' }));
@@ -220,66 +571,277 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
     }
   };
 
-  const handleAnalysis = async () => {
-    if (shapes.length === 0) {
-      alert("Please draw an area to analyze first!");
+  const requestAnalysis = async (request: AnalysisRequest): Promise<AnalysisResult> => {
+    const res = await fetch('/api/analyze-by-biome', { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(request) });
+    if (!res.ok) {
+      const body: AnalysisErrorBody | null = await res.json().catch(() => null);
+      throw new Error([body?.error || res.statusText, ...(body?.problems ?? [])].join('\n'));
+    }
+    return res.json();
+  };
+
+  // Repairs and size-checks an area's outline; the backend only sees the cleaned ring
+  // (for a multi-part area, the outer ring of its largest part).
+  const prepareShape = async (area: Area) => {
+    // Imported outlines can have holes and several parts; send every path and let /api/geometry sort them out
+    const paths = shapePaths(area.overlays[0]);
+    const geometry = paths.length > 1 ? polygonsToGeoJson(groupRings(paths)) : { shape_points: paths[0] };
+    const check = await fetch('/api/geometry', { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(geometry) });
+    const report: { valid?: boolean; shape_points?: [number, number][] | null; issues?: { severity: string; message: string }[]; error?: string } = await check.json();
+    if (!check.ok || !report.valid || !report.shape_points) {
+      const errors = report.issues?.filter(i => i.severity === 'error').map(i => i.message) ?? [];
+      throw new Error([report.error || 'The selected area is not a valid shape', ...errors].join('\n'));
+    }
+    return { shape_points: report.shape_points, paths };
+  };
+
+  const analyzeArea = async (area: Area) => {
+    if (shapePaths(area.overlays[0]).length === 0) {
+      updateArea(area.id, { error: 'Could not define a valid area from this shape.' });
       return;
     }
-    setIsLoadingAnalysis(true);
-    setAnalysisResult(null);
-    setBiomeSummaryMap({});
-    setDetailSummaryMap({});
+    updateArea(area.id, { loading: true, error: undefined });
 
-    const shape = shapes[0];
-    let shape_points: [number, number][] = [];
+    try {
+      const { shape_points, paths } = await prepareShape(area);
+      const request: AnalysisRequest = { shape_points, month: analysisMonth, year: analysisYear };
+      const data = await requestAnalysis(request);
+      const saved = await saveToHistory({ ...area, result: data, request }, paths);
+      updateArea(area.id, { result: data, request, historyId: saved?.id, loading: false });
 
-    if (shape instanceof google.maps.Polygon) {
-      const path = shape.getPath();
-      for (let i = 0; i < path.getLength(); i++) {
-        const p = path.getAt(i);
-        if (p) shape_points.push([p.lat(), p.lng()]);
-      }
-    } else if (shape instanceof google.maps.Rectangle) {
-      const bounds = shape.getBounds();
-      if (bounds) {
-        const ne = bounds.getNorthEast();
-        const sw = bounds.getSouthWest();
-        shape_points.push([ne.lat(), ne.lng()], [ne.lat(), sw.lng()], [sw.lat(), sw.lng()], [sw.lat(), ne.lng()]);
-      }
-    } else if (shape instanceof google.maps.Circle) {
-      const center = shape.getCenter();
-      const radius = shape.getRadius();
-      if (center && radius) {
-        for (let i = 0; i < 32; i++) {
-          const point = google.maps.geometry.spherical.computeOffset(center, radius, (i / 32) * 360);
-          if (point) shape_points.push([point.lat(), point.lng()]);
-        }
-      }
+      forgetOverviews(area.id);
+      fetchBiomeSummaries(area.id, data.results);
+    } catch (error) {
+      updateArea(area.id, { loading: false, error: `Failed to run analysis: ${error instanceof Error ? error.message : 'Unknown error'}` });
     }
+  };
 
-    if (shape_points.length < 3) {
-      alert("Could not define a valid area from the selected shape.");
-      setIsLoadingAnalysis(false);
-      return;
+  // Summaries fetched so far for a result's biomes in the current language, keyed the way the export expects
+  const summariesFor = (areaId: string, result: AnalysisResult) => {
+    const suffix = `::${locale}`;
+    const biomeNames = result.results.map(r => `::${r.biome_name}`);
+    const overviews = Object.fromEntries(result.results.filter(r => biomeSummaryMap[overviewKey(areaId, r.biome)]).map(r => [r.biome, biomeSummaryMap[overviewKey(areaId, r.biome)]]));
+    const details = Object.fromEntries(
+      Object.entries(detailSummaryMap)
+        .filter(([key]) => key.endsWith(suffix))
+        .map(([key, summary]) => [key.slice(0, -suffix.length), summary])
+        .filter(([key]) => biomeNames.some(name => key.endsWith(name)))
+    );
+    return { overviews, details };
+  };
+
+  const exportFor = (area: Area): AnalysisExport | null => {
+    if (!area.result || !area.request) return null;
+    return { name: area.name, request: area.request, result: area.result, ...summariesFor(area.id, area.result) };
+  };
+
+  useEffect(() => {
+    if (typeof indexedDB === 'undefined') return;
+    historyStore.current = createIndexedDbHistory();
+    historyStore.current.list().then(setHistory).catch(e => console.error('Failed to load analysis history:', e));
+  }, []);
+
+  const putHistory = async (entry: SavedAnalysis) => {
+    setHistory(all => [entry, ...all.filter(e => e.id !== entry.id)].sort((a, b) => b.savedAt - a.savedAt));
+    try {
+      await historyStore.current?.put(entry);
+    } catch (e) {
+      console.error('Failed to save analysis history:', e);
     }
+  };
+
+  const saveToHistory = async (area: Area, paths: [number, number][][]) => {
+    const data = exportFor(area);
+    if (!historyStore.current || !data) return null;
+    const now = Date.now();
+    const entry: SavedAnalysis = { ...data, id: crypto.randomUUID(), savedAt: now, updatedAt: now, paths, locale };
+    await putHistory(entry);
+    return entry;
+  };
+
+  // Summaries arrive after the analysis and names change afterwards; fold both into the saved entries
+  useEffect(() => {
+    for (const area of analysedAreas) {
+      const entry = history.find(e => e.id === area.historyId);
+      if (!entry || entry.locale !== locale) continue;
+      const { overviews, details } = summariesFor(area.id, area.result);
+      const merged = { ...entry, name: area.name, overviews: { ...entry.overviews, ...overviews }, details: { ...entry.details, ...details } };
+      if (JSON.stringify(merged) !== JSON.stringify(entry)) putHistory({ ...merged, updatedAt: Date.now() });
+    }
+  }, [areas, biomeSummaryMap, detailSummaryMap]);
+
+  const openFromHistory = (entry: SavedAnalysis) => {
+    if (!map) return;
+    const bounds = new google.maps.LatLngBounds();
+    const paths = entry.paths.map(path => path.map(toLatLng));
+    paths.flat().forEach(p => bounds.extend(p));
+    const polygon = new google.maps.Polygon({ ...SHAPE_STYLE, editable: entry.paths.flat().length <= MAX_EDITABLE_VERTICES, paths, map });
+    const area = addArea([polygon], entry.name);
+    updateArea(area.id, { result: entry.result, request: entry.request, historyId: entry.id });
+    setAnalysisMonth(entry.request.month);
+    setAnalysisYear(entry.request.year);
+    // Overviews are stored per biome without a language, so only reuse them in the language they were written in
+    if (entry.locale === locale) setBiomeSummaryMap(m => ({ ...m, ...Object.fromEntries(Object.entries(entry.overviews ?? {}).map(([biome, summary]) => [overviewKey(area.id, biome), summary])) }));
+    setDetailSummaryMap(m => ({ ...Object.fromEntries(Object.entries(entry.details ?? {}).map(([key, summary]) => [`${key}::${entry.locale}`, summary])), ...m }));
+    if (!bounds.isEmpty()) map.fitBounds(bounds);
+  };
+
+  const renameHistory = (entry: SavedAnalysis, name: string) => {
+    putHistory({ ...entry, name, updatedAt: Date.now() });
+    setAreas(all => all.map(a => (a.historyId === entry.id ? { ...a, name } : a)));
+  };
 
+  const deleteHistory = async (entry: SavedAnalysis) => {
+    setHistory(all => all.filter(e => e.id !== entry.id));
+    setAreas(all => all.map(a => (a.historyId === entry.id ? { ...a, historyId: undefined } : a)));
     try {
-      const res = await fetch(`${apiUrl}/analyze-by-biome`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ shape_points, month: analysisMonth, year: analysisYear }) });
-      if (!res.ok) throw new Error(await res.text());
-      const data: AnalysisResult = await res.json();
-      setAnalysisResult(data);
+      await historyStore.current?.delete(entry.id);
+    } catch (e) {
+      console.error('Failed to delete analysis history:', e);
+    }
+  };
 
-      if (data.results) {
-        fetchBiomeSummaries(data.results);
+  const keepRerun = (entry: SavedAnalysis, result: AnalysisResult) => {
+    putHistory({ ...entry, result, overviews: {}, updatedAt: Date.now() });
+    setAreas(all => all.map(a => (a.historyId === entry.id ? { ...a, result } : a)));
+    areas.filter(a => a.historyId === entry.id).forEach(a => {
+      forgetOverviews(a.id);
+      fetchBiomeSummaries(a.id, result.results);
+    });
+  };
+
+  const downloadFile = (fileName: string, body: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([body], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = (format: 'geojson' | 'csv' | 'report') => {
+    const data = activeArea && exportFor(activeArea);
+    if (!data) return;
+    const stem = exportFileName(data);
+    if (format === 'geojson') {
+      downloadFile(`${stem}.geojson`, JSON.stringify(analysisToGeoJson(data), null, 2), 'application/geo+json');
+    } else if (format === 'csv') {
+      downloadFile(`${stem}.csv`, analysisToCsv(data), 'text/csv;charset=utf-8');
+    } else {
+      // A print-styled page in a new tab; the browser's print dialog also saves it as PDF
+      const report = window.open('', '_blank');
+      if (!report) {
+        alert('Allow pop-ups for this site to open the printable report.');
+        return;
       }
+      report.document.write(analysisReportHtml(data));
+      report.document.close();
+      report.focus();
+      report.print();
+    }
+  };
 
+  // Twelve monthly analyses of the active area, streamed from the server one month at a time
+  const handleAnalyzeYear = async () => {
+    if (!activeArea) return;
+    const area = activeArea;
+    const year = analysisYear;
+    const run = ++yearRun.current;
+    setYearView({ run, areaName: area.name, year, months: [], errors: [], pending: 12 });
+    try {
+      const { shape_points } = await prepareShape(area);
+      const res = await fetch('/api/analyze-by-biome/year', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ shape_points, year }) });
+      if (!res.ok) {
+        const body: AnalysisErrorBody | null = await res.json().catch(() => null);
+        throw new Error([body?.error || res.statusText, ...(body?.problems ?? [])].join('\n'));
+      }
+      await readNdjson<YearEvent>(res, (event) => {
+        setYearView(v => {
+          if (v?.run !== run) return v;
+          return 'result' in event
+            ? { ...v, months: [...v.months, { month: event.month, result: event.result }], pending: v.pending - 1 }
+            : { ...v, errors: [...v.errors, { month: event.month ?? 0, error: event.error }], pending: v.pending - 1 };
+        });
+      });
     } catch (error) {
-      alert(`Failed to run analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setYearView(v => v?.run !== run ? v : { ...v, errors: [...v.errors, { month: 0, error: error instanceof Error ? error.message : 'Unknown error' }] });
     } finally {
-      setIsLoadingAnalysis(false);
+      setYearView(v => v?.run !== run ? v : { ...v, pending: 0 });
+    }
+  };
+
+  // The active area's month analysed for each year typed in, streamed as each year finishes
+  const handleCompareYears = async () => {
+    if (!activeArea) return;
+    const parsed = parseScenarioYears(scenarioYears);
+    if ('error' in parsed) {
+      alert(parsed.error);
+      return;
+    }
+    const area = activeArea;
+    const { years } = parsed;
+    const month = analysisMonth;
+    const run = ++scenarioRun.current;
+    setScenarioView({ run, areaName: area.name, month, years, runs: [], errors: [], pending: years.length });
+    try {
+      const { shape_points } = await prepareShape(area);
+      const res = await fetch('/api/analyze-by-biome/scenarios', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ shape_points, month, years }) });
+      if (!res.ok) {
+        const body: AnalysisErrorBody | null = await res.json().catch(() => null);
+        throw new Error([body?.error || res.statusText, ...(body?.problems ?? [])].join('\n'));
+      }
+      await readNdjson<YearEvent>(res, (event) => {
+        setScenarioView(v => {
+          if (v?.run !== run) return v;
+          return 'result' in event
+            ? { ...v, runs: [...v.runs, { year: event.year, result: event.result }], pending: v.pending - 1 }
+            : { ...v, errors: [...v.errors, { year: event.year ?? 0, error: event.error }], pending: v.pending - 1 };
+        });
+      });
+    } catch (error) {
+      setScenarioView(v => v?.run !== run ? v : { ...v, errors: [...v.errors, { year: 0, error: error instanceof Error ? error.message : 'Unknown error' }] });
+    } finally {
+      setScenarioView(v => v?.run !== run ? v : { ...v, pending: 0 });
+    }
+  };
+
+  const handleAnalysis = async () => {
+    if (!activeArea) {
+      alert("Please draw an area to analyze first!");
+      return;
+    }
+    await analyzeArea(activeArea);
+  };
+
+  // One at a time: the analysis route is rate limited and each run samples the backend heavily
+  const handleAnalyzeAll = async () => {
+    for (const area of areas) {
+      await analyzeArea(area);
     }
   };
 
+  useEffect(() => {
+    if (!map || !permalink || permalinkRestored.current) return;
+    permalinkRestored.current = true;
+    // Older links do not say; fall back to the rule imported outlines follow
+    const restored = permalink.areas.map(({ name, paths, editable }) =>
+      addArea([new google.maps.Polygon({ ...SHAPE_STYLE, editable: editable ?? paths.flat().length <= MAX_EDITABLE_VERTICES, paths: paths.map(path => path.map(toLatLng)), map })], name)
+    );
+    const selected = permalink.selected !== undefined ? restored[permalink.selected] : undefined;
+    if (selected) setActiveAreaId(selected.id);
+    if (permalink.autoRun) setAutoRunIds(restored.map(a => a.id));
+  }, [map]);
+
+  useEffect(() => {
+    if (!autoRunIds) return;
+    setAutoRunIds(null);
+    (async () => {
+      for (const area of areas.filter(a => autoRunIds.includes(a.id))) {
+        await analyzeArea(area);
+      }
+    })();
+  }, [autoRunIds]);
+
   useEffect(() => {
     if (modalOpen) {
       setActiveDetailKey(null);
@@ -298,15 +860,17 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
       item = selectedBiome.pests.find(p => p.common_name_pest === name);
     }
 
-    if (item && !detailSummaryMap[activeDetailKey]) {
-      fetchDetailSummary(item, selectedBiome.biome_name);
+    if (item && !detailSummaryMap[`${activeDetailKey}::${locale}`]) {
+      fetchDetailSummary(item, selectedBiome);
     }
-  }, [activeDetailKey, selectedBiome]);
+  }, [activeDetailKey, selectedBiome, locale]);
 
   const btnStyle = (tool: string) => ({ padding: '8px 12px', border: '1px solid #374151', borderRadius: '4px', background: selectedTool === tool ? '#2563eb' : '#1f2937', color: 'white', cursor: 'pointer' });
   const FLOWER_PIN_SRC: string = (typeof FLOWER_PIN === 'string' ? FLOWER_PIN : (FLOWER_PIN as any)?.src ?? '');
   const PUBLIC_FLOWER_PIN_SRC = '/Video/flower%20pin.gif';
 
+  const selectedOverview = selectedBiome && selectedBiomeAreaId ? overviewKey(selectedBiomeAreaId, selectedBiome.biome) : '';
+
   return (
     <>
       <div style={{ position: 'absolute', top: '80px', left: '24px', zIndex: 1000, background: '#0f172a', color: '#e5e7eb', padding: '14px', borderRadius: '10px', boxShadow: '0 2px 18px rgba(0,0,0,0.42)', display: 'flex', flexDirection: 'column', gap: '12px', minWidth: '320px' }}>
@@ -314,9 +878,16 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
           <div data-tour="tools-shapes-group" style={{ display: 'flex', gap: '8px' }}>
             <button data-tour="tool-rectangle" onClick={() => handleToolSelect('rectangle')} style={btnStyle('rectangle')}>Rectangle</button>
             <button data-tour="tool-circle" onClick={() => handleToolSelect('circle')} style={btnStyle('circle')}>Circle</button>
+            <button data-tour="tool-ellipse" onClick={() => handleToolSelect('ellipse')} style={btnStyle('ellipse')}>Ellipse</button>
             <button data-tour="tool-polygon" onClick={() => handleToolSelect('polygon')} style={btnStyle('polygon')}>Polygon</button>
+            <button data-tour="tool-lasso" onClick={() => handleToolSelect('lasso')} style={btnStyle('lasso')}>Lasso</button>
+            <button data-tour="tool-corridor" onClick={() => handleToolSelect('corridor')} style={btnStyle('corridor')}>Corridor</button>
           </div>
-          <button data-tour="tool-clear" onClick={deleteSelectedShape} style={{ ...btnStyle(''), background: '#374151' }}>Clear</button>
+          <button data-tour="tool-import" onClick={() => fileInputRef.current?.click()} disabled={isImporting} style={{ ...btnStyle(''), background: '#374151', opacity: isImporting ? 0.6 : 1 }}>{isImporting ? 'Reading…' : 'Import'}</button>
+          <input ref={fileInputRef} type="file" accept={BOUNDARY_FILE_ACCEPT} style={{ display: 'none' }} onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportFile(file); }} />
+          <button data-tour="tool-history" onClick={() => setHistoryOpen(o => !o)} style={{ ...btnStyle(''), background: historyOpen ? '#2563eb' : '#374151' }}>History{history.length ? ` (${history.length})` : ''}</button>
+          <button data-tour="tool-clear" onClick={clearAreas} style={{ ...btnStyle(''), background: '#374151' }}>Clear</button>
+          <button data-tour="tool-koppen" onClick={() => setKoppenVisible(v => !v)} style={{ ...btnStyle(''), background: koppenVisible ? '#2563eb' : '#374151' }}>Köppen</button>
           <button data-tour="tool-theme" onClick={onToggleDarkMode} style={{ ...btnStyle(''), background: darkMode ? '#d97706' : '#1f2937' }}>{darkMode ? '☀️' : '🌙'}</button>
           <div data-tour="tools-zoom-group" style={{ display: 'flex', gap: '8px' }}>
             <button aria-label="Zoom in" onClick={() => handleZoom(1)} style={{ ...btnStyle(''), background: '#374151' }}>+</button>
@@ -324,6 +895,42 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
           </div>
         </div>
 
+        {selectedTool === 'corridor' && (
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <label style={{ fontSize: '12px' }}>Buffer each side (m):</label>
+            <input type="number" min="1" value={corridorBuffer} onChange={(e) => setCorridorBuffer(Math.max(1, parseInt(e.target.value) || 1))} style={{ width: '80px', background: '#1f2937', color: 'white', border: '1px solid #374151', borderRadius: '4px', padding: '4px' }} />
+            <span style={{ fontSize: '12px', color: '#9ca3af' }}>Click to draw the line, double-click to finish.</span>
+          </div>
+        )}
+
+        {importFile && (
+          <div style={{ borderTop: '1px solid #374151', paddingTop: '12px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <div style={{ fontSize: '13px', fontWeight: 600 }}>{importFile.name}: {importFile.candidates.length} feature{importFile.candidates.length === 1 ? '' : 's'}</div>
+            {importFile.skipped.map((note) => <div key={note} style={{ fontSize: '11px', color: '#9ca3af' }}>Skipped {note}.</div>)}
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '220px', overflowY: 'auto' }}>
+              {importFile.candidates.map(({ feature, report, vertices, selected }, i) => {
+                const error = report.issues.find(issue => issue.severity === 'error');
+                return (
+                  <li key={i} style={{ fontSize: '12px' }}>
+                    <label style={{ display: 'flex', gap: '6px', alignItems: 'center', cursor: 'pointer' }}>
+                      <input type="checkbox" checked={selected} onChange={() => toggleCandidate(i)} />
+                      <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={feature.name}>{feature.name}</span>
+                      <span style={{ fontSize: '11px', color: '#9ca3af' }}>{vertices.toLocaleString()} pts</span>
+                    </label>
+                    {error && <div style={{ fontSize: '11px', color: '#f87171', marginLeft: '20px' }}>{error.message}</div>}
+                    {!error && vertices > MAX_EDITABLE_VERTICES && <div style={{ fontSize: '11px', color: '#fbbf24', marginLeft: '20px' }}>Very detailed: shown read-only and simplified to {GEOMETRY_LIMITS.maxVertices} points for analysis.</div>}
+                    {!error && vertices > GEOMETRY_LIMITS.maxVertices && vertices <= MAX_EDITABLE_VERTICES && <div style={{ fontSize: '11px', color: '#fbbf24', marginLeft: '20px' }}>Complex: simplified to {GEOMETRY_LIMITS.maxVertices} points for analysis.</div>}
+                  </li>
+                );
+              })}
+            </ul>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button onClick={addImportedFeatures} disabled={!importFile.candidates.some(c => c.selected)} style={{ ...btnStyle(''), flex: 1, background: '#2563eb', opacity: importFile.candidates.some(c => c.selected) ? 1 : 0.6 }}>Add selected ({importFile.candidates.filter(c => c.selected).length})</button>
+              <button onClick={() => setImportFile(null)} style={{ ...btnStyle(''), background: '#374151' }}>Cancel</button>
+            </div>
+          </div>
+        )}
+
         <div style={{ borderTop: '1px solid #374151', paddingTop: '12px', marginTop: '4px' }}>
           <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>🔬 Ecology Analysis</h3>
           <div data-tour="input-time" style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
@@ -332,26 +939,77 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
             <label style={{ fontSize: '12px' }}>Year:</label>
             <input type="number" value={analysisYear} onChange={(e) => setAnalysisYear(parseInt(e.target.value))} style={{ width: '80px', background: '#1f2937', color: 'white', border: '1px solid #374151', borderRadius: '4px', padding: '4px' }} />
           </div>
-          <button data-tour="run-analysis" onClick={handleAnalysis} disabled={isLoadingAnalysis || shapes.length === 0} style={{ width: '100%', padding: '8px', border: '1px solid #059669', borderRadius: '4px', background: '#10b981', color: 'white', cursor: 'pointer', opacity: (isLoadingAnalysis || shapes.length === 0) ? 0.6 : 1 }}>
-            {isLoadingAnalysis ? 'Analyzing...' : 'Run Analysis'}
+          {areas.length > 0 && (
+            <ul data-tour="areas-list" style={{ listStyle: 'none', margin: '0 0 8px 0', padding: 0, display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '180px', overflowY: 'auto' }}>
+              {areas.map((area) => (
+                <li key={area.id} onClick={() => setActiveAreaId(area.id)} style={{ display: 'flex', flexDirection: 'column', gap: '2px', padding: '4px 6px', borderRadius: '4px', cursor: 'pointer', border: `1px solid ${area.id === activeAreaId ? area.color : '#374151'}`, background: area.id === activeAreaId ? '#1f2937' : 'transparent' }}>
+                  <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                    <span style={{ width: '10px', height: '10px', borderRadius: '50%', background: area.color, flexShrink: 0 }} />
+                    <input aria-label="Area name" value={area.name} onChange={(e) => updateArea(area.id, { name: e.target.value })} style={{ flex: 1, minWidth: 0, background: 'transparent', color: 'white', border: 'none', fontSize: '12px' }} />
+                    <span style={{ fontSize: '11px', color: '#9ca3af' }}>
+                      {area.loading ? 'Analyzing…' : area.result ? `${area.result.results.length} biome${area.result.results.length === 1 ? '' : 's'}` : ''}
+                    </span>
+                    <button aria-label={`Remove ${area.name}`} onClick={(e) => { e.stopPropagation(); removeArea(area.id); }} style={{ background: 'none', border: 'none', color: '#9ca3af', cursor: 'pointer' }}>×</button>
+                  </div>
+                  {area.error && <div style={{ fontSize: '11px', color: '#f87171', whiteSpace: 'pre-line' }}>{area.error}</div>}
+                </li>
+              ))}
+            </ul>
+          )}
+          <button data-tour="run-analysis" onClick={handleAnalysis} disabled={isLoadingAnalysis || !activeArea} style={{ width: '100%', padding: '8px', border: '1px solid #059669', borderRadius: '4px', background: '#10b981', color: 'white', cursor: 'pointer', opacity: (isLoadingAnalysis || !activeArea) ? 0.6 : 1 }}>
+            {isLoadingAnalysis ? 'Analyzing...' : activeArea ? `Run Analysis: ${activeArea.name}` : 'Run Analysis'}
+          </button>
+          <button onClick={handleAnalyzeYear} disabled={!activeArea || (yearView?.pending ?? 0) > 0} style={{ ...btnStyle(''), width: '100%', marginTop: '8px', opacity: (!activeArea || (yearView?.pending ?? 0) > 0) ? 0.6 : 1 }}>
+            {(yearView?.pending ?? 0) > 0 ? `Whole year: ${12 - yearView!.pending}/12…` : `Whole year calendar (${analysisYear})`}
           </button>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px' }}>
+            <input aria-label="Years to compare" value={scenarioYears} onChange={(e) => setScenarioYears(e.target.value)} placeholder="2000, 2025, 2050" style={{ flex: 1, minWidth: 0, background: '#1f2937', color: 'white', border: '1px solid #374151', borderRadius: '4px', padding: '4px' }} />
+            <button onClick={handleCompareYears} disabled={!activeArea || (scenarioView?.pending ?? 0) > 0} style={{ ...btnStyle(''), opacity: (!activeArea || (scenarioView?.pending ?? 0) > 0) ? 0.6 : 1 }}>
+              {(scenarioView?.pending ?? 0) > 0 ? `Years: ${scenarioView!.years.length - scenarioView!.pending}/${scenarioView!.years.length}…` : 'Compare years'}
+            </button>
+          </div>
+          {activeArea?.result && activeArea.request && (
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px' }}>
+              <span style={{ fontSize: '12px' }}>Export:</span>
+              <button onClick={() => handleExport('geojson')} style={{ ...btnStyle(''), flex: 1 }}>GeoJSON</button>
+              <button onClick={() => handleExport('csv')} style={{ ...btnStyle(''), flex: 1 }}>CSV</button>
+              <button onClick={() => handleExport('report')} style={{ ...btnStyle(''), flex: 1 }}>Report</button>
+            </div>
+          )}
+          {areas.length > 0 && (
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px' }}>
+              <button onClick={handleCopyLink} style={{ ...btnStyle(''), flex: 1 }}>{linkCopied ? 'Link copied' : 'Copy link'}</button>
+              <label style={{ fontSize: '12px', display: 'flex', gap: '4px', alignItems: 'center' }}>
+                <input type="checkbox" checked={linkAutoRun} onChange={(e) => setLinkAutoRun(e.target.checked)} />
+                Run analysis on open
+              </label>
+            </div>
+          )}
+          {areas.length > 1 && (
+            <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+              <button onClick={handleAnalyzeAll} disabled={isLoadingAnalysis} style={{ ...btnStyle(''), flex: 1, opacity: isLoadingAnalysis ? 0.6 : 1 }}>Analyze all</button>
+              <button onClick={() => setCompareOpen(true)} disabled={analysedAreas.length < 2} style={{ ...btnStyle(''), flex: 1, opacity: analysedAreas.length < 2 ? 0.6 : 1 }}>Compare ({analysedAreas.length})</button>
+            </div>
+          )}
         </div>
       </div>
 
-      {analysisResult?.results.map((result) => {
-        const isHovered = hoveredBiomeKey === result.biome;
+      {analysedAreas.flatMap((area) => area.result.results.map((result) => {
+        const markerKey = `${area.id}::${result.biome}`;
+        const isHovered = hoveredBiomeKey === markerKey;
 
         return (
           <div
-            key={result.biome}
-            onMouseEnter={() => setHoveredBiomeKey(result.biome)}
+            key={markerKey}
+            onMouseEnter={() => setHoveredBiomeKey(markerKey)}
             onMouseLeave={() => setHoveredBiomeKey(null)}>
 
             <AdvancedMarker
               position={result.location}
-              title={result.biome_name}
+              title={`${area.name}: ${result.biome_name}`}
               onClick={() => {
                 setSelectedBiome(result);
+                setSelectedBiomeAreaId(area.id);
                 setModalOpen(true);
               }}>
               <img
@@ -377,13 +1035,55 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
                 className="hover-infowindow">
                 <div className="hover-content">
                   
+                  <h4>{area.name}</h4>
                   <h2><i>Click pin for full details regarding flowers/pests and blooming....</i></h2>
                 </div>
               </InfoWindow>
             )}
           </div>
         );
-      })}
+      }))}
+
+      {historyOpen && (
+        <HistoryDrawer
+          entries={history}
+          onOpen={openFromHistory}
+          onRename={renameHistory}
+          onDelete={deleteHistory}
+          onRerun={(entry) => requestAnalysis(entry.request)}
+          onKeepRerun={keepRerun}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {yearView && (
+        <PhenologyCalendar
+          areaName={yearView.areaName}
+          year={yearView.year}
+          months={yearView.months}
+          errors={yearView.errors}
+          pending={yearView.pending}
+          onClose={() => setYearView(null)}
+        />
+      )}
+
+      {scenarioView && (
+        <YearComparison
+          areaName={scenarioView.areaName}
+          month={scenarioView.month}
+          years={scenarioView.years}
+          runs={scenarioView.runs}
+          errors={scenarioView.errors}
+          pending={scenarioView.pending}
+          onClose={() => setScenarioView(null)}
+        />
+      )}
+
+      <KoppenOverlay visible={koppenVisible} />
+
+      {compareOpen && (
+        <AreaComparison areas={analysedAreas} onClose={() => setCompareOpen(false)} />
+      )}
 
       {modalOpen && selectedBiome && (
         <div className="biome-modal-backdrop" onClick={() => setModalOpen(false)}>
@@ -391,7 +1091,18 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
             <div className="biome-header">
               <div className="biome-title">{selectedBiome.biome_name} <span className="biome-code">({selectedBiome.biome})</span></div>
               <button className="biome-close" onClick={() => setModalOpen(false)}>×</button>
-              <div className="biome-sub">Köppen code: {selectedBiome.biome}</div>
+              <div className="biome-sub">
+                Köppen code: <i className="biome-swatch" style={{ background: koppenByCode(selectedBiome.biome)?.color ?? 'transparent' }} />{selectedBiome.biome}
+                {koppenByCode(selectedBiome.biome) && ` · ${koppenByCode(selectedBiome.biome)!.name}`}
+              </div>
+              <label className="biome-locale">
+                Summary language:
+                <select value={locale} onChange={(e) => changeLocale(e.target.value as Locale)}>
+                  {SUPPORTED_LOCALES.map((l) => (
+                    <option key={l} value={l}>{LOCALE_NAMES[l]}</option>
+                  ))}
+                </select>
+              </label>
             </div>
             <div className="biome-metrics">
               <div className="metric"><div className="metric-label">Temperature</div><div className="metric-value">{selectedBiome.climate_data.temperature}°C</div></div>
@@ -436,12 +1147,15 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
 
             <div className="biome-section">
               <div className="section-title">Biome Overview</div>
-              {isBiomeSummaryLoading ? (
+              {biomeSummaryMap[selectedOverview] ? (
+                <div className="summary" lang={locale}>
+                  <ProgressiveText text={biomeSummaryMap[selectedOverview]} />
+                  <Citations items={citationMap[`biome::${selectedOverview}`]} />
+                </div>
+              ) : selectedBiomeAreaId && overviewsLoading[selectedBiomeAreaId] ? (
                 <div className="summary loading">Loading biome overview…</div>
               ) : (
-                <div className="summary">
-                  {biomeSummaryMap[selectedBiome.biome] || 'An overview for this biome is currently unavailable.'}
-                </div>
+                <div className="summary">An overview for this biome is currently unavailable.</div>
               )}
             </div>
 
@@ -450,8 +1164,9 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
               {isDetailSummaryLoading ? (
                 <div className="summary loading">Fetching details…</div>
               ) : activeDetailKey ? (
-                <div className="summary">
-                  {detailSummaryMap[activeDetailKey] || 'Summary not available.'}
+                <div className="summary" lang={locale}>
+                  {detailSummaryMap[`${activeDetailKey}::${locale}`] || 'Summary not available.'}
+                  <Citations items={citationMap[`${activeDetailKey}::${locale}`]} />
                 </div>
               ) : (
                 <div className="summary placeholder">
@@ -476,7 +1191,10 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
             .biome-header { position: sticky; top: 0; z-index: 1; padding: 16px; background: radial-gradient(80% 120% at 0% 0%, rgba(16,185,129,0.25) 0%, rgba(0,0,0,0) 60%), radial-gradient(80% 120% at 100% 0%, rgba(59,130,246,0.25) 0%, rgba(0,0,0,0) 60%), #0f172a; border-bottom: 1px solid rgba(255,255,255,0.08); }
             .biome-title { font-weight: 800; font-size: 18px; letter-spacing: .2px; }
             .biome-code { font-weight: 600; color: rgba(255,255,255,.85); }
+            .biome-swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; vertical-align: -1px; border: 1px solid rgba(255,255,255,.2); }
             .biome-sub { font-size: 12px; color: rgba(255,255,255,.7); margin-top: 2px; }
+            .biome-locale { display: inline-flex; align-items: center; gap: 6px; margin-top: 8px; font-size: 12px; color: rgba(255,255,255,.7); }
+            .biome-locale select { background: #1f2937; color: #fff; border: 1px solid #374151; border-radius: 6px; padding: 2px 6px; font-size: 12px; }
             .biome-close { position: absolute; right: 12px; top: 12px; width: 32px; height: 32px; border-radius: 8px; border: 1px solid rgba(255,255,255,.12); background: rgba(255,255,255,.06); color: #fff; font-size: 20px; line-height: 28px; text-align: center; cursor: pointer; }
             .biome-close:hover { background: rgba(255,255,255,.12); }
             .biome-metrics { display: grid; grid-template-columns: repeat(3, minmax(0,1fr)); gap: 10px; padding: 14px 16px; }
@@ -494,6 +1212,10 @@ function DrawingTools({ darkMode, onToggleDarkMode, apiUrl }: DrawingToolsProps)
             .summary { font-size: 13px; color: #e5e7eb; background: rgba(255,255,255,.06); border: 1px solid rgba(255,255,255,.12); padding: 10px 12px; border-radius: 12px; line-height: 1.4; }
             .summary.loading { color: #93c5fd; border-color: rgba(147,197,253,.35); background: rgba(59,130,246,.12); }
             .summary.placeholder { color: #9ca3af; }
+            .citations { margin-top: 8px; font-size: 11px; color: #9ca3af; }
+            .citations summary { cursor: pointer; color: #93c5fd; }
+            .citations ol { margin: 6px 0 0; padding-left: 18px; display: grid; gap: 4px; }
+            .citation-source { font-family: monospace; color: #a78bfa; }
             .biome-foot { padding: 12px 16px 16px; display: flex; gap: 8px; flex-wrap: wrap; }
             .foot-pill { font-size: 11px; color: rgba(255,255,255,.85); background: rgba(255,255,255,.06); border: 1px solid rgba(255,255,255,.12); padding: 4px 8px; border-radius: 999px; }
           `}</style>
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import { monthName } from '@/lib/analysis/export';
+import type { AnalysisResult } from '@/lib/analysis/types';
+import type { PresenceRow } from '@/lib/analysis/compare';
+import { diffResults, type SavedAnalysis } from '@/lib/history';
+
+interface HistoryDrawerProps {
+  entries: SavedAnalysis[];
+  onOpen: (entry: SavedAnalysis) => void;
+  onRename: (entry: SavedAnalysis, name: string) => void;
+  onDelete: (entry: SavedAnalysis) => void;
+  // Runs the saved request against the current models without touching the entry
+  onRerun: (entry: SavedAnalysis) => Promise<AnalysisResult>;
+  onKeepRerun: (entry: SavedAnalysis, result: AnalysisResult) => void;
+  onClose: () => void;
+}
+
+function DiffList({ title, rows, tone, describe }: { title: string; rows: PresenceRow[] | string[]; tone: 'added' | 'removed' | 'changed'; describe?: (row: PresenceRow) => string }) {
+  if (rows.length === 0) return null;
+  return (
+    <div className="history-diff-group">
+      <div className={`history-diff-title ${tone}`}>{title} ({rows.length})</div>
+      <div className="history-diff-items">
+        {rows.map((row) => typeof row === 'string'
+          ? <span key={row} className={`history-chip ${tone}`}>{row}</span>
+          : <span key={row.key} className={`history-chip ${tone}`} title={row.key}>{row.label}{describe ? ` ${describe(row)}` : ''}</span>)}
+      </div>
+    </div>
+  );
+}
+
+function HistoryDrawer({ entries, onOpen, onRename, onDelete, onRerun, onKeepRerun, onClose }: HistoryDrawerProps) {
+  const [rerun, setRerun] = useState<{ id: string; result?: AnalysisResult; error?: string } | null>(null);
+
+  const handleRerun = async (entry: SavedAnalysis) => {
+    setRerun({ id: entry.id });
+    try {
+      setRerun({ id: entry.id, result: await onRerun(entry) });
+    } catch (e) {
+      setRerun({ id: entry.id, error: e instanceof Error ? e.message : 'Re-run failed.' });
+    }
+  };
+
+  return (
+    <div className="history-drawer">
+      <div className="history-header">
+        <div className="history-title">History ({entries.length})</div>
+        <button className="history-close" onClick={onClose}>×</button>
+      </div>
+      {entries.length === 0 && <div className="history-empty">Analyses you run are saved here, in this browser.</div>}
+      <ul className="history-list">
+        {entries.map((entry) => {
+          const active = rerun?.id === entry.id ? rerun : null;
+          const diff = active?.result ? diffResults(entry.result, active.result) : null;
+          return (
+            <li key={entry.id} className="history-entry">
+              <input aria-label="Analysis name" className="history-name" value={entry.name} onChange={(e) => onRename(entry, e.target.value)} />
+              <div className="history-meta">
+                {monthName(entry.request.month)} {entry.request.year} · {entry.result.results.length} biome{entry.result.results.length === 1 ? '' : 's'} · saved {new Date(entry.savedAt).toLocaleString()}
+              </div>
+              <div className="history-actions">
+                <button onClick={() => onOpen(entry)}>Open</button>
+                <button onClick={() => handleRerun(entry)} disabled={active !== null && !active.result && !active.error}>
+                  {active && !active.result && !active.error ? 'Running…' : 'Re-run'}
+                </button>
+                <button onClick={() => onDelete(entry)}>Delete</button>
+              </div>
+              {active?.error && <div className="history-error">{active.error}</div>}
+              {diff && active?.result && (
+                <div className="history-diff">
+                  {diff.unchanged ? (
+                    <div className="history-empty">The current models give the same biomes, species and pests.</div>
+                  ) : (
+                    <>
+                      <DiffList title="Biomes added" rows={diff.biomesAdded} tone="added" />
+                      <DiffList title="Biomes removed" rows={diff.biomesRemoved} tone="removed" />
+                      <DiffList title="Species added" rows={diff.speciesAdded} tone="added" />
+                      <DiffList title="Species removed" rows={diff.speciesRemoved} tone="removed" />
+                      <DiffList title="Phenophase changed" rows={diff.phenophaseChanged} tone="changed" describe={(r) => `(${r.detail[0]} → ${r.detail[1]})`} />
+                      <DiffList title="Pests added" rows={diff.pestsAdded} tone="added" />
+                      <DiffList title="Pests removed" rows={diff.pestsRemoved} tone="removed" />
+                    </>
+                  )}
+                  <div className="history-actions">
+                    {!diff.unchanged && <button onClick={() => { onKeepRerun(entry, active.result!); setRerun(null); }}>Keep new result</button>}
+                    <button onClick={() => setRerun(null)}>Dismiss</button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <style>{`
+        .history-drawer { position: fixed; top: 80px; right: 24px; bottom: 24px; width: min(92vw, 380px); z-index: 1000; display: flex; flex-direction: column; color: #e5e7eb; background: #0f172a; border-radius: 10px; box-shadow: 0 2px 18px rgba(0,0,0,0.42); border: 1px solid rgba(255,255,255,0.08); }
+        .history-header { position: relative; padding: 14px; border-bottom: 1px solid rgba(255,255,255,0.08); }
+        .history-title { font-weight: 800; font-size: 15px; }
+        .history-close { position: absolute; right: 10px; top: 10px; width: 28px; height: 28px; border-radius: 8px; border: 1px solid rgba(255,255,255,.12); background: rgba(255,255,255,.06); color: #fff; font-size: 18px; line-height: 24px; cursor: pointer; }
+        .history-empty { padding: 10px 14px; font-size: 12px; color: #9ca3af; }
+        .history-list { list-style: none; margin: 0; padding: 0; overflow-y: auto; }
+        .history-entry { padding: 10px 14px; border-bottom: 1px solid rgba(255,255,255,0.06); }
+        .history-name { width: 100%; background: transparent; color: #fff; border: none; font-size: 13px; font-weight: 600; }
+        .history-meta { font-size: 11px; color: #9ca3af; margin: 2px 0 6px; }
+        .history-actions { display: flex; gap: 6px; margin-top: 6px; }
+        .history-actions button { padding: 4px 8px; border: 1px solid #374151; border-radius: 4px; background: #1f2937; color: white; font-size: 12px; cursor: pointer; }
+        .history-actions button:disabled { opacity: .6; }
+        .history-error { font-size: 11px; color: #f87171; margin-top: 6px; white-space: pre-line; }
+        .history-diff { margin-top: 8px; padding: 8px; border-radius: 8px; background: rgba(255,255,255,.04); }
+        .history-diff .history-empty { padding: 0; }
+        .history-diff-group { margin-bottom: 6px; }
+        .history-diff-title { font-size: 11px; text-transform: uppercase; letter-spacing: .06em; margin-bottom: 4px; }
+        .history-diff-title.added { color: #6ee7b7; }
+        .history-diff-title.removed { color: #fca5a5; }
+        .history-diff-title.changed { color: #fcd34d; }
+        .history-diff-items { display: flex; flex-wrap: wrap; gap: 4px; }
+        .history-chip { font-size: 11px; padding: 2px 8px; border-radius: 999px; border: 1px solid; }
+        .history-chip.added { color: #6ee7b7; border-color: rgba(16,185,129,.4); }
+        .history-chip.removed { color: #fca5a5; border-color: rgba(239,68,68,.4); }
+        .history-chip.changed { color: #fcd34d; border-color: rgba(245,158,11,.4); }
+      `}</style>
+    </div>
+  );
+}
+
+export default HistoryDrawer;
@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useMap } from '@vis.gl/react-google-maps';
+import { KOPPEN_CLASSES, koppenById, type KoppenClass } from '@/lib/koppen/classes';
+import { cellAt, KOPPEN_TILE_SIZE, sourceTile, tileKey, type TileCoord } from '@/lib/koppen/tiles';
+
+interface KoppenOverlayProps {
+  visible: boolean;
+}
+
+const TILE_PX = 256;
+const OPACITY = 0.55;
+const RGB = new Map(KOPPEN_CLASSES.map((c) => [c.id, [1, 3, 5].map((i) => parseInt(c.color.slice(i, i + 2), 16))]));
+
+// Class ids to a KOPPEN_TILE_SIZE canvas; 0 (no data) stays transparent
+function paint(ids: Uint8Array) {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = KOPPEN_TILE_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(KOPPEN_TILE_SIZE, KOPPEN_TILE_SIZE);
+  ids.forEach((id, i) => {
+    const rgb = RGB.get(id);
+    if (!rgb) return;
+    image.data.set([...rgb, 255], i * 4);
+  });
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+function KoppenOverlay({ visible }: KoppenOverlayProps) {
+  const map = useMap();
+  // Loaded grids, read synchronously by the hover readout
+  const grids = useRef(new Map<string, Uint8Array>());
+  const loads = useRef(new Map<string, Promise<HTMLCanvasElement | null>>());
+  // undefined: not over a loaded tile; null: over a cell with no class
+  const [hover, setHover] = useState<KoppenClass | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!map || !visible) return;
+
+    const load = (tile: TileCoord) => {
+      const key = tileKey(tile);
+      let pending = loads.current.get(key);
+      if (!pending) {
+        pending = fetch(`/api/koppen/${key}`)
+          .then((res) => (res.ok ? res.arrayBuffer() : Promise.reject(new Error(res.statusText))))
+          .then((buffer) => {
+            const ids = new Uint8Array(buffer);
+            grids.current.set(key, ids);
+            return paint(ids);
+          })
+          .catch(() => {
+            // Forget failures so the tile is retried when it scrolls back into view
+            loads.current.delete(key);
+            return null;
+          });
+        loads.current.set(key, pending);
+      }
+      return pending;
+    };
+
+    const mapType: google.maps.MapType = {
+      tileSize: new google.maps.Size(TILE_PX, TILE_PX),
+      maxZoom: 22,
+      minZoom: 0,
+      name: 'Köppen–Geiger',
+      alt: 'Köppen–Geiger climate classes',
+      projection: null,
+      radius: 6378137,
+      getTile(coord, zoom, ownerDocument) {
+        const canvas = (ownerDocument ?? document).createElement('canvas');
+        canvas.width = canvas.height = TILE_PX;
+        canvas.style.opacity = String(OPACITY);
+        const n = 2 ** zoom;
+        if (!coord || coord.y < 0 || coord.y >= n) return canvas;
+        const { source, sx, sy, size } = sourceTile({ z: zoom, x: ((coord.x % n) + n) % n, y: coord.y });
+        load(source).then((image) => {
+          if (!image) return;
+          const ctx = canvas.getContext('2d')!;
+          ctx.imageSmoothingEnabled = false;
+          ctx.drawImage(image, sx, sy, size, size, 0, 0, TILE_PX, TILE_PX);
+        });
+        return canvas;
+      },
+      releaseTile() {},
+    };
+    map.overlayMapTypes.push(mapType);
+
+    const onMove = map.addListener('mousemove', (e: google.maps.MapMouseEvent) => {
+      if (!e.latLng) return;
+      const { tile, index } = cellAt(e.latLng.lat(), e.latLng.lng(), map.getZoom() ?? 0);
+      const grid = grids.current.get(tileKey(tile));
+      setHover(grid ? koppenById(grid[index]) ?? null : undefined);
+    });
+    const onOut = map.addListener('mouseout', () => setHover(undefined));
+
+    return () => {
+      onMove.remove();
+      onOut.remove();
+      const i = map.overlayMapTypes.getArray().indexOf(mapType);
+      if (i >= 0) map.overlayMapTypes.removeAt(i);
+      setHover(undefined);
+    };
+  }, [map, visible]);
+
+  if (!visible) return null;
+
+  return (
+    <div className="koppen-legend">
+      <div className="koppen-title">Köppen–Geiger climate</div>
+      <div className="koppen-readout">
+        {hover === undefined ? 'Hover the map to read a class' : hover ? (
+          <><i style={{ background: hover.color }} /><b>{hover.code}</b> {hover.name}</>
+        ) : 'No class here'}
+      </div>
+      <div className="koppen-grid">
+        {KOPPEN_CLASSES.map((c) => (
+          <span key={c.id} title={c.name} className={hover?.id === c.id ? 'active' : ''}>
+            <i style={{ background: c.color }} />{c.code}
+          </span>
+        ))}
+      </div>
+      <style>{`
+        .koppen-legend { position: absolute; left: 24px; bottom: 32px; z-index: 1000; width: 300px; padding: 10px 12px; border-radius: 10px; background: #0f172a; color: #e5e7eb; box-shadow: 0 2px 18px rgba(0,0,0,0.42); font-size: 11px; }
+        .koppen-title { font-weight: 700; font-size: 12px; margin-bottom: 4px; }
+        .koppen-readout { min-height: 18px; margin-bottom: 6px; color: rgba(255,255,255,.85); }
+        .koppen-readout b { margin-right: 4px; }
+        .koppen-legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; vertical-align: -1px; border: 1px solid rgba(255,255,255,.2); }
+        .koppen-grid { display: grid; grid-template-columns: repeat(5, 1fr); gap: 2px 6px; }
+        .koppen-grid span { padding: 1px 2px; border-radius: 3px; white-space: nowrap; }
+        .koppen-grid span.active { background: #2563eb; }
+      `}</style>
+    </div>
+  );
+}
+
+export default KoppenOverlay;
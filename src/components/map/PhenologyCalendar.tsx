@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState } from 'react';
+import { buildCalendar, timingOf, type MonthlyResult, type PhaseCell } from '@/lib/analysis/calendar';
+import { monthName } from '@/lib/analysis/export';
+
+interface PhenologyCalendarProps {
+  areaName: string;
+  year: number;
+  months: MonthlyResult[];
+  errors: { month: number; error: string }[];
+  // Months still being analysed
+  pending: number;
+  onClose: () => void;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+const PHASE_COLORS: Record<string, string> = { Budding: '#a3e635', Flowering: '#f472b6', Fruiting: '#fb923c' };
+const TIMING_MARK = { early: '◂', late: '▸', 'on-time': '', unknown: '' };
+
+function PhaseCells({ cells }: { cells?: PhaseCell[] }) {
+  if (!cells?.length) return null;
+  return (
+    <>
+      {cells.map((c) => {
+        const timing = timingOf(c.timing);
+        return (
+          <span key={c.phenophase} className={`calendar-phase ${timing}`} style={{ background: PHASE_COLORS[c.phenophase] ?? '#93c5fd' }} title={`${c.phenophase}${c.timing ? `, ${c.timing}` : ''}`}>
+            {c.phenophase.slice(0, 2)}{TIMING_MARK[timing]}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+function PhenologyCalendar({ areaName, year, months, errors, pending, onClose }: PhenologyCalendarProps) {
+  const calendars = buildCalendar(months);
+  const [biome, setBiome] = useState<string | null>(null);
+  const current = calendars.find((c) => c.biome === biome) ?? calendars[0];
+  const analysed = new Set(months.map((m) => m.month));
+
+  const header = (
+    <tr>
+      <th />
+      {MONTHS.map((m) => <th key={m} className={analysed.has(m) ? '' : 'missing'} title={monthName(m)}>{monthName(m).slice(0, 3)}</th>)}
+    </tr>
+  );
+
+  return (
+    <div className="calendar-backdrop" onClick={onClose}>
+      <div className="calendar-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="calendar-header">
+          <div className="calendar-title">{areaName}: {year} calendar</div>
+          <button className="calendar-close" onClick={onClose}>×</button>
+          <div className="calendar-status">
+            {pending > 0 ? `Analysing… ${12 - pending} of 12 months done` : `${analysed.size} of 12 months analysed`}
+            {errors.map((e) => <div key={e.month} className="calendar-error">{e.month ? `${monthName(e.month)}: ` : ''}{e.error}</div>)}
+          </div>
+          {calendars.length > 1 && (
+            <div className="calendar-tabs">
+              {calendars.map((c) => (
+                <button key={c.biome} className={c.biome === current?.biome ? 'active' : ''} onClick={() => setBiome(c.biome)}>{c.biome_name} ({c.biome})</button>
+              ))}
+            </div>
+          )}
+          <div className="calendar-legend">
+            {Object.entries(PHASE_COLORS).map(([phase, color]) => <span key={phase}><i style={{ background: color }} />{phase}</span>)}
+            <span>◂ early</span>
+            <span>▸ late</span>
+          </div>
+        </div>
+
+        {!current ? (
+          <div className="calendar-empty">{pending > 0 ? 'Waiting for the first month…' : 'No biomes were found in this area.'}</div>
+        ) : (
+          <>
+            <div className="calendar-section">
+              <div className="calendar-section-title">{current.biome_name} · found in {current.months.length} month{current.months.length === 1 ? '' : 's'}</div>
+              <div className="calendar-section-title">Species ({current.species.length})</div>
+              <div className="calendar-scroll">
+                <table className="calendar-table">
+                  <thead>{header}</thead>
+                  <tbody>
+                    {current.species.map((row) => (
+                      <tr key={row.key}>
+                        <td title={row.key}>{row.label}</td>
+                        {MONTHS.map((m) => <td key={m} className="calendar-cell"><PhaseCells cells={row.months[m]} /></td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            <div className="calendar-section">
+              <div className="calendar-section-title">Pests active ({current.pests.length})</div>
+              <div className="calendar-scroll">
+                <table className="calendar-table">
+                  <thead>{header}</thead>
+                  <tbody>
+                    {current.pests.map((row) => (
+                      <tr key={row.key}>
+                        <td title={row.key}>{row.label}</td>
+                        {MONTHS.map((m) => <td key={m} className="calendar-cell">{row.months.includes(m) && <span className="calendar-pest" />}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+      <style>{`
+        .calendar-backdrop { position: fixed; inset: 0; background: rgba(0,0,0,.55); backdrop-filter: blur(2px); z-index: 4000; display: grid; place-items: center; }
+        .calendar-modal { width: min(96vw, 1040px); max-height: 86vh; overflow: hidden auto; color: #fff; background: linear-gradient(180deg,#0f172a 0%, #111827 100%); border-radius: 16px; box-shadow: 0 18px 42px rgba(0,0,0,.45); border: 1px solid rgba(255,255,255,0.08); }
+        .calendar-header { position: sticky; top: 0; z-index: 2; padding: 16px; background: #0f172a; border-bottom: 1px solid rgba(255,255,255,0.08); }
+        .calendar-title { font-weight: 800; font-size: 18px; }
+        .calendar-close { position: absolute; right: 12px; top: 12px; width: 32px; height: 32px; border-radius: 8px; border: 1px solid rgba(255,255,255,.12); background: rgba(255,255,255,.06); color: #fff; font-size: 20px; line-height: 28px; cursor: pointer; }
+        .calendar-status { font-size: 12px; color: rgba(255,255,255,.7); margin-top: 4px; }
+        .calendar-error { color: #f87171; }
+        .calendar-tabs { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 8px; }
+        .calendar-tabs button { padding: 4px 10px; border-radius: 999px; border: 1px solid #374151; background: #1f2937; color: #e5e7eb; font-size: 12px; cursor: pointer; }
+        .calendar-tabs button.active { background: #2563eb; border-color: #2563eb; }
+        .calendar-legend { display: flex; gap: 12px; margin-top: 8px; font-size: 11px; color: rgba(255,255,255,.75); }
+        .calendar-legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; }
+        .calendar-section { padding: 10px 16px 14px; }
+        .calendar-section-title { font-size: 12px; color: rgba(255,255,255,.7); margin-bottom: 8px; text-transform: uppercase; letter-spacing: .06em; }
+        .calendar-scroll { max-height: 340px; overflow: auto; }
+        .calendar-table { width: 100%; border-collapse: collapse; font-size: 12px; table-layout: fixed; }
+        .calendar-table th { position: sticky; top: 0; background: #111827; font-weight: 700; padding: 4px; border-bottom: 1px solid rgba(255,255,255,.12); }
+        .calendar-table th:first-child { width: 200px; }
+        .calendar-table th.missing { color: #6b7280; }
+        .calendar-table td { padding: 3px 4px; border-bottom: 1px solid rgba(255,255,255,.06); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .calendar-cell { text-align: center; }
+        .calendar-phase { display: inline-block; min-width: 24px; margin: 1px; padding: 1px 3px; border-radius: 4px; color: #111827; font-size: 10px; font-weight: 700; }
+        .calendar-phase.early { box-shadow: inset 3px 0 0 #2563eb; }
+        .calendar-phase.late { box-shadow: inset -3px 0 0 #dc2626; }
+        .calendar-pest { display: inline-block; width: 14px; height: 14px; border-radius: 50%; background: rgba(239,68,68,.7); }
+        .calendar-empty { padding: 16px; font-size: 13px; color: #9ca3af; }
+      `}</style>
+    </div>
+  );
+}
+
+export default PhenologyCalendar;
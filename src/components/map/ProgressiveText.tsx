@@ -0,0 +1,28 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+/**
+ * Reveals `text` a few words at a time so streamed summaries read as they
+ * arrive instead of popping in as a block.
+ */
+export default function ProgressiveText({ text, wordsPerTick = 3, tickMs = 40 }: { text: string; wordsPerTick?: number; tickMs?: number }) {
+  const words = text.split(/(\s+)/);
+  const [shown, setShown] = useState(0);
+
+  useEffect(() => {
+    setShown(0);
+    const timer = setInterval(() => {
+      setShown((n) => {
+        if (n >= words.length) {
+          clearInterval(timer);
+          return n;
+        }
+        return n + wordsPerTick * 2; // every word is followed by its whitespace
+      });
+    }, tickMs);
+    return () => clearInterval(timer);
+  }, [text]);
+
+  return <>{words.slice(0, shown).join('')}</>;
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useState } from 'react';
+import { compareYears, type BiomeScenario, type YearResult } from '@/lib/analysis/scenarios';
+import { monthName } from '@/lib/analysis/export';
+import type { ClimateSummary } from '@/lib/analysis/compare';
+
+interface YearComparisonProps {
+  areaName: string;
+  month: number;
+  // Every year asked for, including ones still running or failed
+  years: number[];
+  runs: YearResult[];
+  errors: { year: number; error: string }[];
+  pending: number;
+  onClose: () => void;
+}
+
+const METRICS: { key: keyof ClimateSummary; label: string; unit: string; color: string }[] = [
+  { key: 'temperature', label: 'Temperature', unit: '°C', color: '#f97316' },
+  { key: 'precipitation', label: 'Precipitation', unit: 'mm', color: '#38bdf8' },
+  { key: 'radiation', label: 'Radiation', unit: 'W/m²', color: '#facc15' },
+];
+
+const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+
+function MetricChart({ scenario, years, metric }: { scenario: BiomeScenario; years: number[]; metric: (typeof METRICS)[number] }) {
+  const points = years.flatMap((year) => {
+    const value = scenario.climate[year]?.[metric.key];
+    return value == null ? [] : [{ year, value }];
+  });
+  if (!points.length) return null;
+  const [w, h, pad] = [220, 90, 18];
+  const min = Math.min(...points.map((p) => p.value));
+  const max = Math.max(...points.map((p) => p.value));
+  const x = (i: number) => pad + (years.length === 1 ? 0 : (i * (w - 2 * pad)) / (years.length - 1));
+  const y = (v: number) => (max === min ? h / 2 : h - pad - ((v - min) * (h - 2 * pad)) / (max - min));
+  const coords = points.map((p) => [x(years.indexOf(p.year)), y(p.value)] as const);
+
+  return (
+    <div className="years-chart">
+      <div className="years-chart-title">{metric.label} ({metric.unit})</div>
+      <svg width={w} height={h} role="img" aria-label={`${metric.label} by year`}>
+        <polyline points={coords.map((c) => c.join(',')).join(' ')} fill="none" stroke={metric.color} strokeWidth={2} />
+        {points.map((p, i) => (
+          <g key={p.year}>
+            <circle cx={coords[i][0]} cy={coords[i][1]} r={3} fill={metric.color} />
+            <text x={coords[i][0]} y={coords[i][1] - 6} textAnchor="middle">{p.value}</text>
+            <text x={coords[i][0]} y={h - 2} textAnchor="middle" className="axis">{p.year}</text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+function YearComparison({ areaName, month, years, runs, errors, pending, onClose }: YearComparisonProps) {
+  const { years: analysed, biomes } = compareYears(runs);
+  const [biome, setBiome] = useState<string | null>(null);
+  const current = biomes.find((b) => b.biome === biome) ?? biomes[0];
+  const [baseline] = analysed;
+  const changedSpecies = current?.species.filter((s) => s.gained || s.lost || s.phenophaseShift || s.timingChange) ?? [];
+
+  return (
+    <div className="years-backdrop" onClick={onClose}>
+      <div className="years-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="years-header">
+          <div className="years-title">{areaName}: {monthName(month)} in {years.join(', ')}</div>
+          <button className="years-close" onClick={onClose}>×</button>
+          <div className="years-status">
+            {pending > 0 ? `Analysing… ${years.length - pending} of ${years.length} years done` : `Compared against ${baseline ?? years[0]}`}
+            {errors.map((e) => <div key={e.year} className="years-error">{e.year ? `${e.year}: ` : ''}{e.error}</div>)}
+          </div>
+          {biomes.length > 1 && (
+            <div className="years-tabs">
+              {biomes.map((b) => (
+                <button key={b.biome} className={b.biome === current?.biome ? 'active' : ''} onClick={() => setBiome(b.biome)}>{b.biome_name} ({b.biome})</button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {!current ? (
+          <div className="years-empty">{pending > 0 ? 'Waiting for the first year…' : 'No biomes were found in this area.'}</div>
+        ) : (
+          <>
+            <div className="years-section">
+              <div className="years-section-title">Climate</div>
+              <table className="years-table">
+                <thead>
+                  <tr>
+                    <th />
+                    {analysed.map((y) => <th key={y}>{y}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {METRICS.map((m) => (
+                    <tr key={m.key}>
+                      <td>{m.label} ({m.unit})</td>
+                      {analysed.map((y) => {
+                        const value = current.climate[y]?.[m.key];
+                        const delta = current.delta[y]?.[m.key];
+                        return (
+                          <td key={y}>
+                            {value ?? '—'}
+                            {delta != null && <span className={`years-delta ${delta > 0 ? 'up' : delta < 0 ? 'down' : ''}`}> {signed(delta)}</span>}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {analysed.length > 1 && (
+                <div className="years-charts">
+                  {METRICS.map((m) => <MetricChart key={m.key} scenario={current} years={analysed} metric={m} />)}
+                </div>
+              )}
+            </div>
+
+            <div className="years-section">
+              <div className="years-section-title">Species that changed ({changedSpecies.length} of {current.species.length})</div>
+              <div className="years-scroll">
+                <table className="years-table">
+                  <thead>
+                    <tr>
+                      <th />
+                      {analysed.map((y) => <th key={y}>{y}</th>)}
+                      <th>Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changedSpecies.map((row) => (
+                      <tr key={row.key}>
+                        <td title={row.key}>{row.label}</td>
+                        {analysed.map((y) => {
+                          const cell = row.byYear[y];
+                          return (
+                            <td key={y} className={cell ? '' : 'absent'}>
+                              {cell ? `${cell.phenophases.join(', ')}${cell.timingDays ? ` (${signed(cell.timingDays)} d)` : ''}` : '—'}
+                            </td>
+                          );
+                        })}
+                        <td>
+                          {row.gained && <span className="years-tag gained">gained</span>}
+                          {row.lost && <span className="years-tag lost">lost</span>}
+                          {row.phenophaseShift && <span className="years-tag">phase</span>}
+                          {row.timingChange && <span className="years-tag">timing</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="years-section">
+              <div className="years-section-title">Pests ({current.pests.length})</div>
+              <div className="years-scroll">
+                <table className="years-table">
+                  <thead>
+                    <tr>
+                      <th />
+                      {analysed.map((y) => <th key={y}>{y}</th>)}
+                      <th>Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {current.pests.map((row) => (
+                      <tr key={row.key}>
+                        <td title={row.key}>{row.label}</td>
+                        {analysed.map((y) => <td key={y}>{row.years.includes(y) ? '●' : '—'}</td>)}
+                        <td>
+                          {row.gained && <span className="years-tag gained">gained</span>}
+                          {row.lost && <span className="years-tag lost">lost</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+      <style>{`
+        .years-backdrop { position: fixed; inset: 0; background: rgba(0,0,0,.55); backdrop-filter: blur(2px); z-index: 4000; display: grid; place-items: center; }
+        .years-modal { width: min(96vw, 960px); max-height: 86vh; overflow: hidden auto; color: #fff; background: linear-gradient(180deg,#0f172a 0%, #111827 100%); border-radius: 16px; box-shadow: 0 18px 42px rgba(0,0,0,.45); border: 1px solid rgba(255,255,255,0.08); }
+        .years-header { position: sticky; top: 0; z-index: 2; padding: 16px; background: #0f172a; border-bottom: 1px solid rgba(255,255,255,0.08); }
+        .years-title { font-weight: 800; font-size: 18px; }
+        .years-close { position: absolute; right: 12px; top: 12px; width: 32px; height: 32px; border-radius: 8px; border: 1px solid rgba(255,255,255,.12); background: rgba(255,255,255,.06); color: #fff; font-size: 20px; line-height: 28px; cursor: pointer; }
+        .years-status { font-size: 12px; color: rgba(255,255,255,.7); margin-top: 4px; }
+        .years-error { color: #f87171; }
+        .years-tabs { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 8px; }
+        .years-tabs button { padding: 4px 10px; border-radius: 999px; border: 1px solid #374151; background: #1f2937; color: #e5e7eb; font-size: 12px; cursor: pointer; }
+        .years-tabs button.active { background: #2563eb; border-color: #2563eb; }
+        .years-section { padding: 10px 16px 14px; }
+        .years-section-title { font-size: 12px; color: rgba(255,255,255,.7); margin-bottom: 8px; text-transform: uppercase; letter-spacing: .06em; }
+        .years-scroll { max-height: 300px; overflow: auto; }
+        .years-table { width: 100%; border-collapse: collapse; font-size: 12px; }
+        .years-table th { position: sticky; top: 0; background: #111827; font-weight: 700; padding: 4px 6px; text-align: left; border-bottom: 1px solid rgba(255,255,255,.12); }
+        .years-table td { padding: 3px 6px; border-bottom: 1px solid rgba(255,255,255,.06); }
+        .years-table td.absent { color: #6b7280; }
+        .years-delta { font-size: 11px; color: #9ca3af; }
+        .years-delta.up { color: #fca5a5; }
+        .years-delta.down { color: #93c5fd; }
+        .years-charts { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 12px; }
+        .years-chart { background: rgba(255,255,255,.04); border-radius: 8px; padding: 6px; }
+        .years-chart-title { font-size: 11px; color: rgba(255,255,255,.7); margin-bottom: 2px; }
+        .years-chart text { fill: #e5e7eb; font-size: 9px; }
+        .years-chart text.axis { fill: #9ca3af; }
+        .years-tag { display: inline-block; margin-right: 4px; padding: 0 6px; border-radius: 999px; background: #374151; font-size: 10px; }
+        .years-tag.gained { background: #065f46; }
+        .years-tag.lost { background: #7f1d1d; }
+        .years-empty { padding: 16px; font-size: 13px; color: #9ca3af; }
+      `}</style>
+    </div>
+  );
+}
+
+export default YearComparison;
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts. Loading the configuration here makes a
+ * misconfigured deployment fail at boot instead of on the first request.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getConfig } = await import('@/lib/config');
+    getConfig();
+  }
+}
@@ -0,0 +1,21 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+
+/**
+ * Guards admin routes with `Authorization: Bearer $ADMIN_TOKEN`. Returns the
+ * error response to send, or null when the caller is allowed through. Without
+ * ADMIN_TOKEN the admin API is switched off entirely.
+ */
+export function requireAdmin(req: Request): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: "Admin API is disabled" }, { status: 404 });
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(req.headers.get("authorization") || "");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+import type { AnalysisResult } from "./types";
+
+/**
+ * Twelve monthly analyses of one area folded into a calendar per biome:
+ * which phenophase each species is in each month, how early or late, and
+ * which pests are active. Pure data for the calendar grid.
+ */
+
+export interface MonthlyResult {
+  /** 1-12 */
+  month: number;
+  result: AnalysisResult;
+}
+
+export type Timing = "early" | "late" | "on-time" | "unknown";
+
+export interface PhaseCell {
+  phenophase: string;
+  /** The backend's wording, e.g. "4 days late"; "" when the timing model had no answer. */
+  timing: string;
+}
+
+export interface CalendarSpeciesRow {
+  /** Scientific name. */
+  key: string;
+  label: string;
+  /** Phases predicted per month (a species can be in more than one). */
+  months: Record<number, PhaseCell[]>;
+}
+
+export interface CalendarPestRow {
+  key: string;
+  label: string;
+  months: number[];
+}
+
+export interface BiomeCalendar {
+  biome: string;
+  biome_name: string;
+  /** Months whose analysis found this biome in the area. */
+  months: number[];
+  species: CalendarSpeciesRow[];
+  pests: CalendarPestRow[];
+}
+
+/** Reads the backend's "N days early|late" / "On time" wording. */
+export function timingOf(text: string): Timing {
+  const lower = text.toLowerCase();
+  if (lower.includes("early")) return "early";
+  if (lower.includes("late")) return "late";
+  if (lower.includes("on time")) return "on-time";
+  return "unknown";
+}
+
+/** Signed days from the same wording: negative early, positive late, 0 on time, null when unknown. */
+export function timingDays(text: string): number | null {
+  const timing = timingOf(text);
+  if (timing === "on-time") return 0;
+  if (timing === "unknown") return null;
+  const days = Number(text.match(/\d+/)?.[0] ?? NaN);
+  if (!Number.isFinite(days)) return null;
+  return timing === "early" ? -days : days;
+}
+
+const byLabel = (a: { label: string }, b: { label: string }) => a.label.localeCompare(b.label);
+
+export function buildCalendar(monthly: MonthlyResult[]): BiomeCalendar[] {
+  const biomes = new Map<string, { calendar: BiomeCalendar; species: Map<string, CalendarSpeciesRow>; pests: Map<string, CalendarPestRow> }>();
+
+  for (const { month, result } of [...monthly].sort((a, b) => a.month - b.month)) {
+    for (const r of result.results) {
+      let entry = biomes.get(r.biome);
+      if (!entry) {
+        entry = { calendar: { biome: r.biome, biome_name: r.biome_name, months: [], species: [], pests: [] }, species: new Map(), pests: new Map() };
+        biomes.set(r.biome, entry);
+      }
+      if (!entry.calendar.months.includes(month)) entry.calendar.months.push(month);
+
+      for (const s of r.species) {
+        const row = entry.species.get(s.scientific_name) ?? { key: s.scientific_name, label: s.common_name || s.scientific_name, months: {} };
+        const cells = (row.months[month] ??= []);
+        if (!cells.some((c) => c.phenophase === s.phenophase)) cells.push({ phenophase: s.phenophase, timing: s.timing_prediction ?? "" });
+        entry.species.set(row.key, row);
+      }
+      for (const p of r.pests) {
+        const row = entry.pests.get(p.scientific_name_pest) ?? { key: p.scientific_name_pest, label: p.common_name_pest || p.scientific_name_pest, months: [] };
+        if (!row.months.includes(month)) row.months.push(month);
+        entry.pests.set(row.key, row);
+      }
+    }
+  }
+
+  return [...biomes.values()].map(({ calendar, species, pests }) => ({
+    ...calendar,
+    species: [...species.values()].sort(byLabel),
+    pests: [...pests.values()].sort(byLabel),
+  }));
+}
@@ -0,0 +1,81 @@
+import { getConfig } from "@/lib/config";
+import { parseAnalysisResult } from "./schema";
+import type { AnalysisRequest, AnalysisResult } from "./types";
+
+/** A failed analysis, carrying the status the proxy route should answer with. */
+export class AnalysisError extends Error {
+  constructor(message: string, readonly status: number, readonly problems: string[] = []) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+// Gateway errors and dropped connections are worth another try; anything else
+// the backend said on purpose.
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+const BACKOFF_MS = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function backendError(res: Response) {
+  const text = await res.text().catch(() => "");
+  try {
+    // FastAPI reports `{ detail: string | ValidationError[] }`.
+    const { detail } = JSON.parse(text);
+    if (typeof detail === "string") return detail;
+    if (Array.isArray(detail)) return detail.map((d) => d?.msg ?? String(d)).join("; ");
+  } catch {
+    // not JSON; fall through
+  }
+  return text.slice(0, 200) || res.statusText;
+}
+
+/**
+ * Runs /analyze-by-biome on the model server (API_URL) with a per-attempt
+ * timeout and retries on gateway errors, and checks the answer against the
+ * shared contract before returning it.
+ */
+export async function analyzeByBiome(request: AnalysisRequest): Promise<AnalysisResult> {
+  const { apiUrl, analysis } = getConfig();
+  if (!apiUrl) throw new AnalysisError("Analysis backend is not configured (API_URL)", 503);
+
+  for (let attempt = 0; ; attempt++) {
+    const retriesLeft = attempt < analysis.retries;
+    let res: Response;
+    try {
+      res = await fetch(`${apiUrl}/analyze-by-biome`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(analysis.timeoutMs),
+        cache: "no-store",
+      });
+    } catch (e: any) {
+      if (e?.name === "TimeoutError") {
+        throw new AnalysisError(`Analysis timed out after ${analysis.timeoutMs} ms`, 504);
+      }
+      if (retriesLeft) {
+        await sleep(BACKOFF_MS * 2 ** attempt);
+        continue;
+      }
+      throw new AnalysisError("Analysis backend is unreachable", 502);
+    }
+
+    if (!res.ok) {
+      if (RETRYABLE_STATUS.has(res.status) && retriesLeft) {
+        await sleep(BACKOFF_MS * 2 ** attempt);
+        continue;
+      }
+      const message = await backendError(res);
+      // Client mistakes keep their status; backend failures become a 502.
+      throw new AnalysisError(message, res.status >= 400 && res.status < 500 ? res.status : 502);
+    }
+
+    const parsed = parseAnalysisResult(await res.json().catch(() => null));
+    if (!parsed.value) {
+      console.error("analyze-by-biome returned an unexpected shape:", parsed.problems);
+      throw new AnalysisError("Analysis backend returned an invalid response", 502, parsed.problems);
+    }
+    return parsed.value;
+  }
+}
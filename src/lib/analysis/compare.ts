@@ -0,0 +1,117 @@
+import type { AnalysisResult, BiomeResult } from "./types";
+
+/**
+ * Side-by-side comparison of several analysed areas. Pure data, so the map's
+ * comparison view and any export can share it. Species are matched on
+ * scientific name and pests on `scientific_name_pest`, since common names
+ * vary between model outputs.
+ */
+
+export interface NamedResult {
+  name: string;
+  result: AnalysisResult;
+}
+
+export interface ClimateSummary {
+  temperature: number;
+  precipitation: number;
+  radiation: number;
+}
+
+export interface AreaProfile {
+  name: string;
+  /** Biomes found in the area, as `{ biome, biome_name }` in the order the backend returned them. */
+  biomes: Pick<BiomeResult, "biome" | "biome_name">[];
+  /** Mean over the area's biomes; null when the analysis found none. */
+  climate: ClimateSummary | null;
+  speciesCount: number;
+  pestCount: number;
+}
+
+/** One species or pest and the areas (by index into `areas`) it was predicted in. */
+export interface PresenceRow {
+  key: string;
+  label: string;
+  /** Phenophase (species) per area index, or "" where only the presence is known. */
+  detail: Record<number, string>;
+  areas: number[];
+  /** Predicted in every area. */
+  shared: boolean;
+  /** Predicted in exactly one area (and there is more than one). */
+  unique: boolean;
+}
+
+export interface AreaComparison {
+  areas: AreaProfile[];
+  species: PresenceRow[];
+  pests: PresenceRow[];
+  /** Biome codes present in every area. */
+  sharedBiomes: string[];
+}
+
+const round = (n: number, digits = 1) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+function meanClimate(results: BiomeResult[]): ClimateSummary | null {
+  if (results.length === 0) return null;
+  const mean = (pick: (c: BiomeResult["climate_data"]) => number) =>
+    round(results.reduce((sum, r) => sum + pick(r.climate_data), 0) / results.length);
+  return {
+    temperature: mean((c) => c.temperature),
+    precipitation: mean((c) => c.precipitation),
+    radiation: mean((c) => c.radiation),
+  };
+}
+
+/** Rows sorted shared first, then by how many areas have them, then by label. */
+function presence(
+  areaCount: number,
+  entries: { area: number; key: string; label: string; detail: string }[]
+): PresenceRow[] {
+  const rows = new Map<string, PresenceRow>();
+  for (const { area, key, label, detail } of entries) {
+    const row = rows.get(key) ?? { key, label, detail: {}, areas: [], shared: false, unique: false };
+    if (!row.areas.includes(area)) row.areas.push(area);
+    row.detail[area] ??= detail;
+    rows.set(key, row);
+  }
+  return [...rows.values()]
+    .map((row) => ({ ...row, shared: row.areas.length === areaCount, unique: areaCount > 1 && row.areas.length === 1 }))
+    .sort((a, b) => b.areas.length - a.areas.length || a.label.localeCompare(b.label));
+}
+
+export function compareAreas(named: NamedResult[]): AreaComparison {
+  const areas = named.map(({ name, result }): AreaProfile => {
+    const species = new Set(result.results.flatMap((r) => r.species.map((s) => s.scientific_name)));
+    const pests = new Set(result.results.flatMap((r) => r.pests.map((p) => p.scientific_name_pest)));
+    return {
+      name,
+      biomes: result.results.map(({ biome, biome_name }) => ({ biome, biome_name })),
+      climate: meanClimate(result.results),
+      speciesCount: species.size,
+      pestCount: pests.size,
+    };
+  });
+
+  const species = presence(
+    named.length,
+    named.flatMap(({ result }, area) =>
+      result.results.flatMap((r) =>
+        r.species.map((s) => ({ area, key: s.scientific_name, label: s.common_name || s.scientific_name, detail: s.phenophase }))
+      )
+    )
+  );
+  const pests = presence(
+    named.length,
+    named.flatMap(({ result }, area) =>
+      result.results.flatMap((r) =>
+        r.pests.map((p) => ({ area, key: p.scientific_name_pest, label: p.common_name_pest || p.scientific_name_pest, detail: "" }))
+      )
+    )
+  );
+
+  const sharedBiomes = areas.length
+    ? areas[0].biomes.map((b) => b.biome).filter((code) => areas.every((a) => a.biomes.some((b) => b.biome === code)))
+    : [];
+
+  return { areas, species, pests, sharedBiomes };
+}
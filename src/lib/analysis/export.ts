@@ -0,0 +1,137 @@
+import { polygonsToGeoJson } from "@/lib/sampling/geojson";
+import type { AnalysisRequest, AnalysisResult, BiomeResult } from "./types";
+
+/**
+ * One analysed area in the formats people take elsewhere: GeoJSON for GIS,
+ * CSV for spreadsheets and a self-contained HTML report meant for printing
+ * (or "Save as PDF"). Pure string building, so it runs in the browser.
+ */
+
+export interface AnalysisExport {
+  name: string;
+  /** What was sent to /analyze-by-biome: the cleaned ring, month and year. */
+  request: AnalysisRequest;
+  result: AnalysisResult;
+  /** AI biome overviews keyed by Köppen code. */
+  overviews?: Record<string, string>;
+  /** AI species/pest summaries keyed by `detailKey`. */
+  details?: Record<string, string>;
+}
+
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+export const monthName = (month: number) => MONTH_NAMES[month - 1] ?? String(month);
+
+/** Key of a species or pest summary in `AnalysisExport.details`. */
+export const detailKey = (kind: "species" | "pest", commonName: string, biome: Pick<BiomeResult, "biome_name">) =>
+  `${kind}::${commonName}::${biome.biome_name}`;
+
+/** File name stem from the area name, e.g. "North field, May 2031" → "north-field-2031-05". */
+export function exportFileName({ name, request }: AnalysisExport): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "area";
+  return `${slug}-${request.year}-${String(request.month).padStart(2, "0")}`;
+}
+
+/** The area polygon plus a Point feature per biome centroid carrying the full result. */
+export function analysisToGeoJson({ name, request, result, overviews = {} }: AnalysisExport) {
+  return {
+    type: "FeatureCollection" as const,
+    features: [
+      {
+        type: "Feature" as const,
+        geometry: polygonsToGeoJson([[request.shape_points]]),
+        properties: { kind: "area", name, month: request.month, year: request.year, biomes: result.results.map((r) => r.biome) },
+      },
+      ...result.results.map((r) => ({
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates: [r.location.lng, r.location.lat] },
+        properties: {
+          kind: "biome",
+          area: name,
+          biome: r.biome,
+          biome_name: r.biome_name,
+          ...r.climate_data,
+          species: r.species,
+          pests: r.pests,
+          overview: overviews[r.biome] ?? null,
+        },
+      })),
+    ],
+  };
+}
+
+const CSV_COLUMNS = ["area", "month", "year", "biome", "biome_name", "kind", "scientific_name", "common_name", "phenophase", "timing_prediction", "temperature", "precipitation", "radiation"];
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per species and per pest in each biome, climate repeated on every row. */
+export function analysisToCsv({ name, request, result }: AnalysisExport): string {
+  const rows = result.results.flatMap((r) => {
+    const common = [name, request.month, request.year, r.biome, r.biome_name];
+    const climate = [r.climate_data.temperature, r.climate_data.precipitation, r.climate_data.radiation];
+    return [
+      ...r.species.map((s) => [...common, "species", s.scientific_name, s.common_name, s.phenophase, s.timing_prediction, ...climate]),
+      ...r.pests.map((p) => [...common, "pest", p.scientific_name_pest, p.common_name_pest, undefined, undefined, ...climate]),
+    ];
+  });
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+function biomeSection(r: BiomeResult, overviews: Record<string, string>, details: Record<string, string>): string {
+  const summary = (key: string) => (details[key] ? `<p class="summary">${escapeHtml(details[key])}</p>` : "");
+  const species = r.species
+    .map((s) => `<li><strong>${escapeHtml(s.common_name)}</strong> <em>${escapeHtml(s.scientific_name)}</em> · ${escapeHtml(s.phenophase)}${s.timing_prediction ? ` (${escapeHtml(s.timing_prediction)})` : ""}${summary(detailKey("species", s.common_name, r))}</li>`)
+    .join("");
+  const pests = r.pests
+    .map((p) => `<li><strong>${escapeHtml(p.common_name_pest)}</strong> <em>${escapeHtml(p.scientific_name_pest)}</em>${summary(detailKey("pest", p.common_name_pest, r))}</li>`)
+    .join("");
+  return `
+<section>
+  <h2>${escapeHtml(r.biome_name)} <span class="code">(${escapeHtml(r.biome)})</span></h2>
+  <p class="meta">Centroid ${r.location.lat.toFixed(4)}, ${r.location.lng.toFixed(4)} · ${r.climate_data.temperature} °C · ${r.climate_data.precipitation} mm/day · ${r.climate_data.radiation} W/m²</p>
+  ${overviews[r.biome] ? `<h3>Overview</h3><p class="summary">${escapeHtml(overviews[r.biome])}</p>` : ""}
+  <h3>Predicted species (${r.species.length})</h3>
+  ${species ? `<ul>${species}</ul>` : "<p>None.</p>"}
+  <h3>Predicted pests (${r.pests.length})</h3>
+  ${pests ? `<ul>${pests}</ul>` : "<p>None.</p>"}
+</section>`;
+}
+
+/** A standalone HTML page, styled for paper; open it and print to get a PDF. */
+export function analysisReportHtml(exp: AnalysisExport, generatedAt = new Date()): string {
+  const { name, request, result, overviews = {}, details = {} } = exp;
+  const title = `${name}: ${monthName(request.month)} ${request.year}`;
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font: 13px/1.5 Georgia, serif; color: #111; max-width: 760px; margin: 24px auto; padding: 0 16px; }
+  h1 { font-size: 22px; margin-bottom: 0; }
+  h2 { font-size: 17px; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 28px; }
+  h3 { font-size: 13px; text-transform: uppercase; letter-spacing: .05em; color: #444; margin: 16px 0 6px; }
+  ul { padding-left: 18px; margin: 0; }
+  li { margin-bottom: 4px; }
+  .code, .meta, .generated { color: #555; }
+  .meta { font-size: 12px; }
+  .summary { margin: 4px 0 8px; }
+  section { break-inside: avoid-page; }
+  @page { margin: 18mm; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="generated">${result.results.length} biome${result.results.length === 1 ? "" : "s"} · area outline of ${request.shape_points.length} points · generated ${escapeHtml(generatedAt.toISOString().slice(0, 16).replace("T", " "))} UTC</p>
+${result.results.map((r) => biomeSection(r, overviews, details)).join("\n") || "<p>The analysis found no biomes in this area.</p>"}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,43 @@
+export {
+  buildCalendar,
+  timingDays,
+  timingOf,
+  type BiomeCalendar,
+  type CalendarPestRow,
+  type CalendarSpeciesRow,
+  type MonthlyResult,
+  type PhaseCell,
+  type Timing,
+} from "./calendar";
+export { AnalysisError, analyzeByBiome } from "./client";
+export { compareAreas, type AreaComparison, type AreaProfile, type NamedResult, type PresenceRow } from "./compare";
+export {
+  analysisReportHtml,
+  analysisToCsv,
+  analysisToGeoJson,
+  detailKey,
+  exportFileName,
+  monthName,
+  type AnalysisExport,
+} from "./export";
+export {
+  compareYears,
+  MAX_SCENARIO_YEARS,
+  parseScenarioYears,
+  type BiomeScenario,
+  type ScenarioComparison,
+  type ScenarioPestRow,
+  type ScenarioSpeciesRow,
+  type YearResult,
+} from "./scenarios";
+export { parseAnalysisRequest, parseAnalysisResult } from "./schema";
+export type * from "./types";
+export {
+  ALL_MONTHS,
+  ANALYSIS_CACHE,
+  analyzeCached,
+  analyzeRuns,
+  analyzeYear,
+  analyzeYears,
+  type RunEvent,
+} from "./year";
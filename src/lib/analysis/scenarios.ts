@@ -0,0 +1,127 @@
+import { timingDays } from "./calendar";
+import type { ClimateSummary } from "./compare";
+import { MAX_YEAR, MIN_YEAR, type AnalysisResult } from "./types";
+
+/**
+ * The same area and month analysed for several years, compared per biome
+ * against the earliest year: climate deltas, species and pests gained or
+ * lost, and species whose phenophase or timing moved. Pure data for the
+ * scenario view.
+ */
+
+/** Most years one scenario comparison may ask for. */
+export const MAX_SCENARIO_YEARS = 5;
+
+export interface YearResult {
+  year: number;
+  result: AnalysisResult;
+}
+
+export interface ScenarioSpeciesRow {
+  /** Scientific name. */
+  key: string;
+  label: string;
+  /** Phenophases and signed timing (days, negative = early) per year it was predicted in. */
+  byYear: Record<number, { phenophases: string[]; timingDays: number | null }>;
+  /** Not predicted in the baseline year but in a later one. */
+  gained: boolean;
+  /** Predicted in the baseline year but missing from a later one. */
+  lost: boolean;
+  phenophaseShift: boolean;
+  timingChange: boolean;
+}
+
+export interface ScenarioPestRow {
+  key: string;
+  label: string;
+  years: number[];
+  gained: boolean;
+  lost: boolean;
+}
+
+export interface BiomeScenario {
+  biome: string;
+  biome_name: string;
+  /** Climate per year, null for years the biome was not found in the area. */
+  climate: Record<number, ClimateSummary | null>;
+  /** Change from the baseline year, null where either year lacks the biome. */
+  delta: Record<number, ClimateSummary | null>;
+  species: ScenarioSpeciesRow[];
+  pests: ScenarioPestRow[];
+}
+
+export interface ScenarioComparison {
+  /** Ascending; the first is the baseline. */
+  years: number[];
+  biomes: BiomeScenario[];
+}
+
+/** Reads "2000, 2025 2050" into sorted distinct years, or the reason it cannot. */
+export function parseScenarioYears(text: string): { years: number[] } | { error: string } {
+  const years = [...new Set(text.split(/[\s,;]+/).filter(Boolean).map(Number))].sort((a, b) => a - b);
+  if (years.some((y) => !Number.isInteger(y) || y < MIN_YEAR || y > MAX_YEAR)) return { error: `Years must be whole numbers from ${MIN_YEAR} to ${MAX_YEAR}.` };
+  if (years.length < 2 || years.length > MAX_SCENARIO_YEARS) return { error: `Pick 2 to ${MAX_SCENARIO_YEARS} different years.` };
+  return { years };
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every((x) => b.includes(x));
+
+const byLabel = (a: { label: string }, b: { label: string }) => a.label.localeCompare(b.label);
+
+export function compareYears(results: YearResult[]): ScenarioComparison {
+  const runs = [...results].sort((a, b) => a.year - b.year);
+  const years = runs.map((r) => r.year);
+  const [baseline] = years;
+  const later = years.slice(1);
+
+  const codes = [...new Map(runs.flatMap(({ result }) => result.results.map((r) => [r.biome, r.biome_name] as const))).entries()];
+  const biomes = codes.map(([biome, biome_name]): BiomeScenario => {
+    const climate: Record<number, ClimateSummary | null> = {};
+    const species = new Map<string, ScenarioSpeciesRow>();
+    const pests = new Map<string, ScenarioPestRow>();
+
+    for (const { year, result } of runs) {
+      const r = result.results.find((b) => b.biome === biome);
+      climate[year] = r ? { ...r.climate_data } : null;
+      for (const s of r?.species ?? []) {
+        const row = species.get(s.scientific_name) ?? { key: s.scientific_name, label: s.common_name || s.scientific_name, byYear: {}, gained: false, lost: false, phenophaseShift: false, timingChange: false };
+        const cell = (row.byYear[year] ??= { phenophases: [], timingDays: null });
+        if (!cell.phenophases.includes(s.phenophase)) cell.phenophases.push(s.phenophase);
+        cell.timingDays ??= timingDays(s.timing_prediction ?? "");
+        species.set(row.key, row);
+      }
+      for (const p of r?.pests ?? []) {
+        const row = pests.get(p.scientific_name_pest) ?? { key: p.scientific_name_pest, label: p.common_name_pest || p.scientific_name_pest, years: [], gained: false, lost: false };
+        if (!row.years.includes(year)) row.years.push(year);
+        pests.set(row.key, row);
+      }
+    }
+
+    const delta: Record<number, ClimateSummary | null> = {};
+    for (const year of later) {
+      const [from, to] = [climate[baseline], climate[year]];
+      delta[year] = from && to
+        ? { temperature: round(to.temperature - from.temperature), precipitation: round(to.precipitation - from.precipitation), radiation: round(to.radiation - from.radiation) }
+        : null;
+    }
+
+    for (const row of species.values()) {
+      const base = row.byYear[baseline];
+      row.gained = !base && later.some((y) => row.byYear[y]);
+      row.lost = !!base && later.some((y) => !row.byYear[y]);
+      row.phenophaseShift = !!base && later.some((y) => row.byYear[y] && !sameSet(row.byYear[y].phenophases, base.phenophases));
+      row.timingChange = !!base && later.some((y) => row.byYear[y] && row.byYear[y].timingDays !== base.timingDays);
+    }
+    for (const row of pests.values()) {
+      const inBase = row.years.includes(baseline);
+      row.gained = !inBase && row.years.length > 0;
+      row.lost = inBase && later.some((y) => !row.years.includes(y));
+    }
+
+    return { biome, biome_name, climate, delta, species: [...species.values()].sort(byLabel), pests: [...pests.values()].sort(byLabel) };
+  });
+
+  return { years, biomes };
+}
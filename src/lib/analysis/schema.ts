@@ -0,0 +1,93 @@
+import type { SchemaResult } from "@/lib/llm/schema";
+import { MAX_YEAR, MIN_SHAPE_POINTS, MIN_YEAR, type AnalysisRequest, type AnalysisResult, type BiomeResult } from "./types";
+
+/**
+ * Validators for both directions of the analysis contract. Like the summary
+ * schemas they list every problem found; `value` is only set when there are
+ * none, and then holds just the known fields.
+ */
+
+const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === "object" && input !== null && !Array.isArray(input);
+
+const isNumber = (n: unknown): n is number => typeof n === "number" && Number.isFinite(n);
+
+const isInteger = (n: unknown, min: number, max: number): n is number =>
+  Number.isInteger(n) && (n as number) >= min && (n as number) <= max;
+
+export function parseAnalysisRequest(input: unknown): SchemaResult<AnalysisRequest> {
+  if (!isPlainObject(input)) return { problems: ["The request body must be a JSON object."] };
+
+  const problems: string[] = [];
+  const points = input.shape_points;
+  if (!Array.isArray(points) || points.length < MIN_SHAPE_POINTS) {
+    problems.push(`shape_points must be an array of at least ${MIN_SHAPE_POINTS} [lat, lng] pairs.`);
+  } else {
+    points.forEach((p, i) => {
+      if (!Array.isArray(p) || p.length !== 2 || !isNumber(p[0]) || !isNumber(p[1])) {
+        problems.push(`shape_points[${i}] must be a [lat, lng] pair of numbers.`);
+      } else if (Math.abs(p[0]) > 90 || Math.abs(p[1]) > 180) {
+        problems.push(`shape_points[${i}] is outside lat -90..90 / lng -180..180.`);
+      }
+    });
+  }
+  if (!isInteger(input.month, 1, 12)) problems.push("month must be an integer from 1 to 12.");
+  if (!isInteger(input.year, MIN_YEAR, MAX_YEAR)) problems.push(`year must be an integer from ${MIN_YEAR} to ${MAX_YEAR}.`);
+
+  if (problems.length) return { problems };
+  return {
+    value: {
+      shape_points: (points as [number, number][]).map(([lat, lng]) => [lat, lng]),
+      month: input.month as number,
+      year: input.year as number,
+    },
+    problems,
+  };
+}
+
+function parseBiomeResult(input: unknown, label: string, problems: string[]): BiomeResult | undefined {
+  if (!isPlainObject(input)) {
+    problems.push(`${label} must be an object.`);
+    return undefined;
+  }
+  const before = problems.length;
+  const { biome, biome_name, location, climate_data, species, pests } = input;
+
+  if (typeof biome !== "string" || !biome) problems.push(`${label}.biome must be a non-empty string.`);
+  if (typeof biome_name !== "string") problems.push(`${label}.biome_name must be a string.`);
+  if (!isPlainObject(location) || !isNumber(location.lat) || !isNumber(location.lng)) {
+    problems.push(`${label}.location must have numeric lat and lng.`);
+  }
+  if (!isPlainObject(climate_data) || !["temperature", "precipitation", "radiation"].every((k) => isNumber(climate_data[k]))) {
+    problems.push(`${label}.climate_data must have numeric temperature, precipitation and radiation.`);
+  }
+  if (!Array.isArray(species) || !species.every((s) => isPlainObject(s) && typeof s.scientific_name === "string" && typeof s.common_name === "string" && typeof s.phenophase === "string" && (s.timing_prediction === undefined || typeof s.timing_prediction === "string"))) {
+    problems.push(`${label}.species must be an array of { scientific_name, common_name, phenophase, timing_prediction? } strings.`);
+  }
+  if (!Array.isArray(pests) || !pests.every((p) => isPlainObject(p) && typeof p.scientific_name_pest === "string" && typeof p.common_name_pest === "string")) {
+    problems.push(`${label}.pests must be an array of { scientific_name_pest, common_name_pest } strings.`);
+  }
+  if (problems.length > before) return undefined;
+
+  const loc = location as BiomeResult["location"];
+  const climate = climate_data as BiomeResult["climate_data"];
+  return {
+    biome: biome as string,
+    biome_name: biome_name as string,
+    location: { lat: loc.lat, lng: loc.lng },
+    climate_data: { temperature: climate.temperature, precipitation: climate.precipitation, radiation: climate.radiation },
+    species: (species as BiomeResult["species"]).map(({ scientific_name, common_name, phenophase, timing_prediction }) => ({
+      scientific_name, common_name, phenophase, ...(timing_prediction !== undefined ? { timing_prediction } : {}),
+    })),
+    pests: (pests as BiomeResult["pests"]).map(({ scientific_name_pest, common_name_pest }) => ({ scientific_name_pest, common_name_pest })),
+  };
+}
+
+export function parseAnalysisResult(input: unknown): SchemaResult<AnalysisResult> {
+  if (!isPlainObject(input) || !Array.isArray(input.results)) {
+    return { problems: ['The response must be an object with a "results" array.'] };
+  }
+  const problems: string[] = [];
+  const results = input.results.map((r, i) => parseBiomeResult(r, `results[${i}]`, problems));
+  return problems.length ? { problems } : { value: { results: results as BiomeResult[] }, problems };
+}
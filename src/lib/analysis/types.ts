@@ -0,0 +1,51 @@
+/**
+ * The /analyze-by-biome contract shared by the browser, the Next.js proxy
+ * route and (by hand) the FastAPI models in backend/main.py. Keep the limits
+ * below in step with `AnalysisRequest` there.
+ */
+
+export const MIN_SHAPE_POINTS = 3;
+export const MIN_YEAR = 1980;
+export const MAX_YEAR = 2099;
+
+export interface AnalysisRequest {
+  /** Polygon ring as `[lat, lng]` pairs. */
+  shape_points: [number, number][];
+  /** 1-12 */
+  month: number;
+  year: number;
+}
+
+export interface Species {
+  scientific_name: string;
+  common_name: string;
+  phenophase: string;
+  timing_prediction?: string;
+}
+
+export interface Pest {
+  scientific_name_pest: string;
+  common_name_pest: string;
+}
+
+export interface BiomeResult {
+  /** Köppen code, e.g. "Cfa". */
+  biome: string;
+  biome_name: string;
+  /** Centroid of the sampled points that fell in this biome. */
+  location: { lat: number; lng: number };
+  /** °C, mm/day and W/m² at the centroid for the requested month. */
+  climate_data: { temperature: number; precipitation: number; radiation: number };
+  species: Species[];
+  pests: Pest[];
+}
+
+export interface AnalysisResult {
+  results: BiomeResult[];
+}
+
+/** Body of every error the proxy route returns. */
+export interface AnalysisErrorBody {
+  error: string;
+  problems?: string[];
+}
@@ -0,0 +1,60 @@
+import { createHash } from "crypto";
+import { getCacheStore } from "@/lib/cache";
+import { settleAsCompleted } from "@/lib/ndjson";
+import { AnalysisError, analyzeByBiome } from "./client";
+import type { AnalysisRequest, AnalysisResult } from "./types";
+
+export const ANALYSIS_CACHE = "analyses";
+
+/** Backend calls in flight at once for one batch request; the model server is single-process. */
+const BATCH_CONCURRENCY = 3;
+
+export const ALL_MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+export type RunEvent =
+  | { month: number; year: number; result: AnalysisResult; cached: boolean }
+  | { month: number; year: number; error: string; problems?: string[] };
+
+const cacheKey = (request: AnalysisRequest) =>
+  createHash("sha1").update(JSON.stringify(request)).digest("hex");
+
+/** One month, served from the "analyses" cache when the same shape, month and year ran before. */
+export async function analyzeCached(request: AnalysisRequest): Promise<{ result: AnalysisResult; cached: boolean }> {
+  const cache = getCacheStore(ANALYSIS_CACHE);
+  const key = cacheKey(request);
+  const hit = await cache.get<AnalysisResult>(key);
+  if (hit) return { result: hit, cached: true };
+  const result = await analyzeByBiome(request);
+  await cache.set(key, result);
+  return { result, cached: false };
+}
+
+/**
+ * Analyses `shape_points` for each month/year pair in `runs`, a few at a
+ * time, yielding each as it settles. A failed run is reported and the rest
+ * carry on.
+ */
+export async function* analyzeRuns(
+  shape_points: AnalysisRequest["shape_points"],
+  runs: { month: number; year: number }[]
+): AsyncGenerator<RunEvent> {
+  const analyze = ({ month, year }: { month: number; year: number }) => analyzeCached({ shape_points, month, year });
+
+  for await (const { item: { month, year }, value, error } of settleAsCompleted(runs, analyze, BATCH_CONCURRENCY)) {
+    if (value) {
+      yield { month, year, ...value };
+    } else if (error instanceof AnalysisError) {
+      yield error.problems.length ? { month, year, error: error.message, problems: error.problems } : { month, year, error: error.message };
+    } else {
+      yield { month, year, error: (error as Error)?.message || "Unknown error" };
+    }
+  }
+}
+
+/** Every month of one year (whole-year calendar). */
+export const analyzeYear = (shape_points: AnalysisRequest["shape_points"], year: number, months: number[] = ALL_MONTHS) =>
+  analyzeRuns(shape_points, months.map((month) => ({ month, year })));
+
+/** One month across several years (scenario comparison). */
+export const analyzeYears = (shape_points: AnalysisRequest["shape_points"], month: number, years: number[]) =>
+  analyzeRuns(shape_points, years.map((year) => ({ month, year })));
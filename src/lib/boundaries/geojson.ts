@@ -0,0 +1,42 @@
+import { polygonsFromGeoJson, SamplingError } from "@/lib/sampling";
+import { featureName } from "./shapefile";
+import { BoundaryFileError, type BoundaryFeature } from "./types";
+
+/**
+ * A FeatureCollection, Feature or bare geometry, one feature per entry.
+ * Features that are not polygons (points, lines, null geometry) are left
+ * out and counted in `skipped` rather than failing the whole file.
+ */
+export function parseGeoJson(text: string, skipped: string[]): BoundaryFeature[] {
+  let input: any;
+  try {
+    input = JSON.parse(text);
+  } catch {
+    throw new BoundaryFileError("The file is not valid JSON");
+  }
+
+  const entries: any[] =
+    input?.type === "FeatureCollection" && Array.isArray(input.features)
+      ? input.features
+      : input?.type === "Feature"
+        ? [input]
+        : [{ type: "Feature", geometry: input, properties: {} }];
+
+  const features: BoundaryFeature[] = [];
+  let withoutPolygons = 0;
+  entries.forEach((entry, i) => {
+    try {
+      // Longitudes past ±180 are accepted here and normalised by validateGeometry later.
+      const polygons = polygonsFromGeoJson(entry, { checkRange: false });
+      const properties: Record<string, unknown> = entry?.properties ?? {};
+      features.push({ name: featureName(properties, `Feature ${i + 1}`), polygons, properties });
+    } catch (err) {
+      if (!(err instanceof SamplingError)) throw err;
+      withoutPolygons++;
+    }
+  });
+  if (withoutPolygons) {
+    skipped.push(`${withoutPolygons} feature${withoutPolygons === 1 ? "" : "s"} without usable polygon geometry`);
+  }
+  return features;
+}
@@ -0,0 +1,84 @@
+import { parseGeoJson } from "./geojson";
+import { parseKml } from "./kml";
+import { shapefileFeatures } from "./shapefile";
+import { BoundaryFileError, type BoundaryFile } from "./types";
+import { readZip } from "./zip";
+
+export { parseGeoJson } from "./geojson";
+export { parseKml } from "./kml";
+export { groupRings, vertexCount } from "./rings";
+export { featureName, isProjected, parseDbf, parseShp, shapefileFeatures } from "./shapefile";
+export { BoundaryFileError, type BoundaryFeature, type BoundaryFile } from "./types";
+export { readZip } from "./zip";
+
+/** Larger files are refused before reading; the map cannot edit them anyway. */
+export const MAX_BOUNDARY_FILE_BYTES = 20 * 1024 * 1024;
+
+export const BOUNDARY_FILE_ACCEPT = ".geojson,.json,.kml,.kmz,.zip";
+
+const extension = (name: string) => name.slice(name.lastIndexOf(".") + 1).toLowerCase();
+const baseName = (path: string) => path.slice(path.lastIndexOf("/") + 1).replace(/\.[^.]*$/, "");
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const copy = (bytes: Uint8Array) => bytes.slice().buffer as ArrayBuffer;
+
+async function readKmz(buffer: ArrayBuffer, skipped: string[]) {
+  const entries = await readZip(buffer, (name) => extension(name) === "kml");
+  // By convention the main document is doc.kml; otherwise take the first .kml.
+  const main = [...entries.keys()].find((name) => name.toLowerCase() === "doc.kml") ?? [...entries.keys()][0];
+  if (!main) throw new BoundaryFileError("The KMZ archive has no .kml document");
+  return parseKml(text(entries.get(main)!), skipped);
+}
+
+async function readShapefileZip(buffer: ArrayBuffer, skipped: string[]) {
+  const entries = await readZip(buffer, (name) => ["shp", "dbf", "prj", "cpg"].includes(extension(name)) && !name.startsWith("__MACOSX/"));
+  const layers = [...entries.keys()].filter((name) => extension(name) === "shp");
+  if (layers.length === 0) throw new BoundaryFileError("The zip has no .shp file");
+
+  const sibling = (shp: string, ext: string) => {
+    const stem = shp.slice(0, -4).toLowerCase();
+    const match = [...entries.keys()].find((name) => name.toLowerCase() === `${stem}.${ext}`);
+    return match ? entries.get(match) : undefined;
+  };
+  return layers.flatMap((shp) => {
+    const dbf = sibling(shp, "dbf");
+    const prj = sibling(shp, "prj");
+    const cpg = sibling(shp, "cpg");
+    return shapefileFeatures(
+      { shp: copy(entries.get(shp)!), dbf: dbf && copy(dbf), prj: prj && text(prj), cpg: cpg && text(cpg) },
+      baseName(shp),
+      skipped
+    );
+  });
+}
+
+/**
+ * Reads a boundary file picked by the user: GeoJSON, KML, KMZ or a zipped
+ * shapefile, told apart by extension. Runs in the browser only (DOMParser,
+ * DecompressionStream). Throws BoundaryFileError with a user-facing message.
+ */
+export async function readBoundaryFile(file: File): Promise<BoundaryFile> {
+  if (file.size > MAX_BOUNDARY_FILE_BYTES) {
+    throw new BoundaryFileError(`${file.name} is larger than ${MAX_BOUNDARY_FILE_BYTES / 1024 / 1024} MB`);
+  }
+  const skipped: string[] = [];
+  let result: BoundaryFile;
+  switch (extension(file.name)) {
+    case "geojson":
+    case "json":
+      result = { format: "geojson", features: parseGeoJson(await file.text(), skipped), skipped };
+      break;
+    case "kml":
+      result = { format: "kml", features: parseKml(await file.text(), skipped), skipped };
+      break;
+    case "kmz":
+      result = { format: "kmz", features: await readKmz(await file.arrayBuffer(), skipped), skipped };
+      break;
+    case "zip":
+      result = { format: "shapefile", features: await readShapefileZip(await file.arrayBuffer(), skipped), skipped };
+      break;
+    default:
+      throw new BoundaryFileError("Choose a .geojson, .kml, .kmz or zipped shapefile (.zip)");
+  }
+  if (result.features.length === 0) throw new BoundaryFileError(`${file.name} contains no polygons`);
+  return result;
+}
@@ -0,0 +1,78 @@
+import type { Point, PolygonRings } from "@/lib/sampling";
+import { featureName } from "./shapefile";
+import { BoundaryFileError, type BoundaryFeature } from "./types";
+
+/**
+ * KML placemarks with Polygon geometry (directly or inside MultiGeometry).
+ * Needs DOMParser, so this only runs in the browser. Element lookups ignore
+ * namespaces: exporters disagree on the `kml:` prefix.
+ */
+
+const children = (el: Element, name: string) => Array.from(el.children).filter((c) => c.localName === name);
+const descendants = (el: Element | Document, name: string) => Array.from(el.getElementsByTagNameNS("*", name));
+
+/** `lng,lat[,alt]` tuples separated by whitespace. */
+function parseCoordinates(text: string): Point[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").map(Number))
+    .filter((pos) => pos.length >= 2 && Number.isFinite(pos[0]) && Number.isFinite(pos[1]))
+    .map(([lng, lat]): Point => [lat, lng]);
+}
+
+function ringOf(boundary: Element): Point[] | null {
+  const coordinates = descendants(boundary, "coordinates")[0];
+  const ring = coordinates ? parseCoordinates(coordinates.textContent ?? "") : [];
+  return ring.length >= 3 ? ring : null;
+}
+
+function polygonOf(polygon: Element): PolygonRings | null {
+  const outer = children(polygon, "outerBoundaryIs").map(ringOf)[0];
+  if (!outer) return null;
+  const holes = children(polygon, "innerBoundaryIs")
+    .map(ringOf)
+    .filter((ring): ring is Point[] => ring !== null);
+  return [outer, ...holes];
+}
+
+function propertiesOf(placemark: Element): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const data of descendants(placemark, "Data")) {
+    const key = data.getAttribute("name");
+    if (key) properties[key] = children(data, "value")[0]?.textContent?.trim() ?? "";
+  }
+  for (const data of descendants(placemark, "SimpleData")) {
+    const key = data.getAttribute("name");
+    if (key) properties[key] = data.textContent?.trim() ?? "";
+  }
+  const description = children(placemark, "description")[0]?.textContent?.trim();
+  if (description) properties.description = description;
+  return properties;
+}
+
+export function parseKml(text: string, skipped: string[]): BoundaryFeature[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new BoundaryFileError("The KML file is not well-formed XML");
+  }
+
+  const features: BoundaryFeature[] = [];
+  let withoutPolygons = 0;
+  descendants(doc, "Placemark").forEach((placemark, i) => {
+    const polygons = descendants(placemark, "Polygon")
+      .map(polygonOf)
+      .filter((polygon): polygon is PolygonRings => polygon !== null);
+    if (polygons.length === 0) {
+      withoutPolygons++;
+      return;
+    }
+    const properties = propertiesOf(placemark);
+    const name = children(placemark, "name")[0]?.textContent?.trim();
+    features.push({ name: name || featureName(properties, `Placemark ${i + 1}`), polygons, properties });
+  });
+  if (withoutPolygons) {
+    skipped.push(`${withoutPolygons} placemark${withoutPolygons === 1 ? "" : "s"} without polygon geometry`);
+  }
+  return features;
+}
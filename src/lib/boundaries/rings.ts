@@ -0,0 +1,33 @@
+import { pointInPolygon, ringAreaM2, unwrapRing, type Point, type PolygonRings } from "@/lib/sampling";
+
+/**
+ * Sorts loose rings into polygons for formats that do not say which ring is
+ * a hole (shapefile parts, multi-path map overlays): a ring inside an odd
+ * number of the others is a hole of the smallest ring containing it.
+ */
+export function groupRings(rings: Point[][]): PolygonRings[] {
+  const usable = rings
+    .map((ring) => unwrapRing(ring))
+    .filter((ring): ring is Point[] => ring !== null && ring.length >= 3);
+  const areas = usable.map(ringAreaM2);
+  const containers = usable.map((ring, i) =>
+    usable.map((_, j) => j).filter((j) => j !== i && areas[j] > areas[i] && pointInPolygon(ring[0], usable[j]))
+  );
+
+  const polygons = new Map<number, PolygonRings>();
+  usable.forEach((ring, i) => {
+    if (containers[i].length % 2 === 0) polygons.set(i, [ring]);
+  });
+  usable.forEach((ring, i) => {
+    if (containers[i].length % 2 === 0) return;
+    const parent = containers[i]
+      .filter((j) => polygons.has(j))
+      .reduce((best, j) => (best < 0 || areas[j] < areas[best] ? j : best), -1);
+    if (parent >= 0) polygons.get(parent)!.push(ring);
+  });
+  return [...polygons.values()];
+}
+
+export function vertexCount(polygons: PolygonRings[]): number {
+  return polygons.reduce((sum, rings) => sum + rings.reduce((n, ring) => n + ring.length, 0), 0);
+}
@@ -0,0 +1,145 @@
+import type { Point, PolygonRings } from "@/lib/sampling";
+import { groupRings } from "./rings";
+import { BoundaryFileError, type BoundaryFeature } from "./types";
+
+/**
+ * ESRI shapefiles (.shp geometry, .dbf attributes, .prj projection) as found
+ * in a zip. Only polygon layers in geographic WGS84-style coordinates are
+ * read; projected layers are refused with a hint to re-export them.
+ */
+
+const SHP_FILE_CODE = 9994;
+/** Polygon, PolygonZ and PolygonM all start with the same box/parts/points layout. */
+const POLYGON_TYPES = new Set([5, 15, 25]);
+const NULL_SHAPE = 0;
+
+/** One entry per record, null where the record has no polygon. */
+export function parseShp(buffer: ArrayBuffer): (PolygonRings[] | null)[] {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 100 || view.getInt32(0, false) !== SHP_FILE_CODE) {
+    throw new BoundaryFileError("The .shp file is not a shapefile");
+  }
+  const layerType = view.getInt32(32, true);
+  if (layerType !== NULL_SHAPE && !POLYGON_TYPES.has(layerType)) {
+    throw new BoundaryFileError("The shapefile holds points or lines, not polygons");
+  }
+
+  const records: (PolygonRings[] | null)[] = [];
+  for (let offset = 100; offset + 8 <= buffer.byteLength; ) {
+    const length = view.getInt32(offset + 4, false) * 2; // in 16-bit words
+    const at = offset + 8;
+    offset = at + length;
+    const type = length >= 4 ? view.getInt32(at, true) : NULL_SHAPE;
+    if (!POLYGON_TYPES.has(type)) {
+      records.push(null);
+      continue;
+    }
+
+    const parts = view.getInt32(at + 36, true);
+    const total = view.getInt32(at + 40, true);
+    const starts = Array.from({ length: parts }, (_, i) => view.getInt32(at + 44 + 4 * i, true));
+    const pointsAt = at + 44 + 4 * parts;
+    const rings: Point[][] = starts.map((start, i) => {
+      const end = i + 1 < parts ? starts[i + 1] : total;
+      const ring: Point[] = [];
+      for (let k = start; k < end; k++) {
+        const x = view.getFloat64(pointsAt + 16 * k, true);
+        const y = view.getFloat64(pointsAt + 16 * k + 8, true);
+        ring.push([y, x]);
+      }
+      return ring;
+    });
+    records.push(groupRings(rings));
+  }
+  return records;
+}
+
+/** dBASE III rows: numeric fields as numbers, everything else as trimmed text. */
+export function parseDbf(buffer: ArrayBuffer, encoding = "utf-8"): Record<string, string | number | null>[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  if (buffer.byteLength < 32) return [];
+  const count = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    decoder = new TextDecoder("utf-8");
+  }
+  const ascii = new TextDecoder("ascii");
+
+  const fields: { name: string; type: string; length: number }[] = [];
+  for (let at = 32; at + 32 <= headerLength && bytes[at] !== 0x0d; at += 32) {
+    const name = ascii.decode(bytes.subarray(at, at + 11)).replace(/\0[\s\S]*$/, "");
+    fields.push({ name, type: String.fromCharCode(bytes[at + 11]), length: bytes[at + 16] });
+  }
+
+  const rows: Record<string, string | number | null>[] = [];
+  for (let r = 0; r < count; r++) {
+    let at = headerLength + r * recordLength;
+    if (at + recordLength > buffer.byteLength) break;
+    at++; // deletion flag
+    const row: Record<string, string | number | null> = {};
+    for (const field of fields) {
+      const text = decoder.decode(bytes.subarray(at, at + field.length)).trim();
+      at += field.length;
+      if (field.type === "N" || field.type === "F") row[field.name] = text === "" ? null : Number(text);
+      else row[field.name] = text;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Whether a .prj describes a projected (metres, feet) rather than geographic system. */
+export function isProjected(prj: string): boolean {
+  return /^\s*PROJCS\[/i.test(prj) || /^\s*PROJCRS\[/i.test(prj);
+}
+
+const NAME_FIELDS = ["name", "title", "label", "id"];
+
+/** A feature's display name from the usual attribute names, else `fallback`. */
+export function featureName(properties: Record<string, unknown>, fallback: string): string {
+  for (const wanted of NAME_FIELDS) {
+    const key = Object.keys(properties).find((k) => k.toLowerCase() === wanted);
+    const value = key ? properties[key] : undefined;
+    if ((typeof value === "string" && value.trim()) || typeof value === "number") return String(value).trim();
+  }
+  return fallback;
+}
+
+/** Features from one layer; `layer` prefixes names when a zip holds several. */
+export function shapefileFeatures(
+  files: { shp: ArrayBuffer; dbf?: ArrayBuffer; prj?: string; cpg?: string },
+  layer: string,
+  skipped: string[]
+): BoundaryFeature[] {
+  if (files.prj && isProjected(files.prj)) {
+    throw new BoundaryFileError(`${layer} uses projected coordinates; export it in WGS84 (EPSG:4326) and try again`);
+  }
+  const records = parseShp(files.shp);
+  const rows = files.dbf ? parseDbf(files.dbf, files.cpg?.trim() || undefined) : [];
+
+  const outOfRange = records.some((polygons) =>
+    polygons?.some((rings) => rings.some((ring) => ring.some(([lat, lng]) => Math.abs(lat) > 90 || Math.abs(lng) > 540)))
+  );
+  if (outOfRange) {
+    throw new BoundaryFileError(`${layer} has coordinates outside latitude/longitude range; export it in WGS84 (EPSG:4326)`);
+  }
+
+  const features: BoundaryFeature[] = [];
+  let empty = 0;
+  records.forEach((polygons, i) => {
+    if (!polygons || polygons.length === 0) {
+      empty++;
+      return;
+    }
+    const properties = rows[i] ?? {};
+    features.push({ name: featureName(properties, `${layer} ${i + 1}`), polygons, properties });
+  });
+  if (empty) skipped.push(`${empty} record${empty === 1 ? "" : "s"} in ${layer} without polygon geometry`);
+  return features;
+}
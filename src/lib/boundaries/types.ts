@@ -0,0 +1,25 @@
+import type { PolygonRings } from "@/lib/sampling";
+
+/** One area read from a boundary file, ready to become a map overlay. */
+export interface BoundaryFeature {
+  name: string;
+  /** `[outer, ...holes]` rings in `[lat, lng]`. */
+  polygons: PolygonRings[];
+  /** Attributes carried by the feature (GeoJSON properties, DBF row, KML ExtendedData). */
+  properties: Record<string, unknown>;
+}
+
+export interface BoundaryFile {
+  format: "geojson" | "kml" | "kmz" | "shapefile";
+  features: BoundaryFeature[];
+  /** Things left out of `features`, e.g. "4 features without polygon geometry". */
+  skipped: string[];
+}
+
+/** The file could not be read at all; the message is shown to the user as is. */
+export class BoundaryFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BoundaryFileError";
+  }
+}
@@ -0,0 +1,62 @@
+import { BoundaryFileError } from "./types";
+
+/**
+ * Just enough of the ZIP format to open zipped shapefiles and KMZ in the
+ * browser: stored and deflated entries, inflated with the built-in
+ * DecompressionStream. No ZIP64, encryption or multi-disk archives.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Entries whose name passes `wanted`, keyed by their path inside the archive. */
+export async function readZip(buffer: ArrayBuffer, wanted: (name: string) => boolean = () => true): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment.
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new BoundaryFileError("Not a ZIP archive");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new BoundaryFileError("ZIP64 archives are not supported");
+
+  const names = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new BoundaryFileError("The ZIP archive is damaged");
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = names.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || !wanted(name)) continue;
+    if (flags & 1) throw new BoundaryFileError(`${name} is encrypted`);
+    if (view.getUint32(local, true) !== LOCAL_SIGNATURE) throw new BoundaryFileError("The ZIP archive is damaged");
+
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + size);
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, await inflateRaw(data));
+    else throw new BoundaryFileError(`${name} uses an unsupported ZIP compression method (${method})`);
+  }
+  return entries;
+}
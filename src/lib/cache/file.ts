@@ -0,0 +1,118 @@
+import fs from "fs/promises";
+import path from "path";
+import { isExpired, makeEntry, type CacheEntry, type CacheOptions, type CacheStore } from "./types";
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5000;
+const STALE_LOCK_MS = 10000;
+
+type Contents = Record<string, CacheEntry>;
+
+/**
+ * Single JSON file store. Writes go to a temp file that is renamed over the
+ * original, so readers never see a half-written file, and every
+ * read-modify-write cycle holds a `.lock` file so concurrent requests (and
+ * processes) cannot overwrite each other's entries.
+ */
+export function createFileStore(file: string, { ttlMs, maxEntries = 5000 }: CacheOptions = {}): CacheStore {
+  const lockFile = `${file}.lock`;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<Contents> {
+    try {
+      const buf = await fs.readFile(file, "utf8");
+      return JSON.parse(buf || "{}");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return {};
+      throw e;
+    }
+  }
+
+  async function write(contents: Contents) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(contents, null, 2), "utf8");
+    await fs.rename(tmp, file);
+  }
+
+  async function acquireLock() {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        const handle = await fs.open(lockFile, "wx");
+        await handle.close();
+        return;
+      } catch (e: any) {
+        if (e?.code !== "EEXIST") throw e;
+        const stat = await fs.stat(lockFile).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          await fs.rm(lockFile, { force: true });
+          continue;
+        }
+        if (Date.now() > deadline) throw new Error(`Timed out waiting for cache lock ${lockFile}`);
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+  }
+
+  /** Serialises updates within this process, then across processes via the lock file. */
+  function update<R>(fn: (contents: Contents) => R): Promise<R> {
+    const run = queue.then(async () => {
+      await acquireLock();
+      try {
+        const contents = await read();
+        const result = fn(contents);
+        await write(contents);
+        return result;
+      } finally {
+        await fs.rm(lockFile, { force: true });
+      }
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  function prune(contents: Contents) {
+    const now = Date.now();
+    for (const key of Object.keys(contents)) {
+      if (isExpired(contents[key], now)) delete contents[key];
+    }
+    const keys = Object.keys(contents);
+    if (keys.length <= maxEntries) return;
+    keys
+      .sort((a, b) => contents[a].createdAt - contents[b].createdAt)
+      .slice(0, keys.length - maxEntries)
+      .forEach((key) => delete contents[key]);
+  }
+
+  return {
+    async get<T>(key: string) {
+      const entry = (await read())[key];
+      if (!entry || isExpired(entry)) return undefined;
+      return entry.value as T;
+    },
+    async set(key, value, ttl = ttlMs) {
+      await update((contents) => {
+        contents[key] = makeEntry(value, ttl);
+        prune(contents);
+      });
+    },
+    async delete(key) {
+      return update((contents) => {
+        const existed = key in contents;
+        delete contents[key];
+        return existed;
+      });
+    },
+    async clear() {
+      await update((contents) => {
+        for (const key of Object.keys(contents)) delete contents[key];
+      });
+    },
+    async entries() {
+      const now = Date.now();
+      return Object.entries(await read()).filter(([, entry]) => !isExpired(entry, now));
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import path from "path";
+import { createFileStore } from "./file";
+import { createMemoryStore } from "./memory";
+import { createSqliteStore } from "./sqlite";
+import type { CacheOptions, CacheStore } from "./types";
+
+export type { CacheEntry, CacheOptions, CacheStore } from "./types";
+export { createFileStore, createMemoryStore, createSqliteStore };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Survives Next.js dev reloads so the memory backend is not wiped on every edit.
+const stores: Map<string, CacheStore> = ((globalThis as any).__summaryCacheStores ??= new Map());
+
+function numberFromEnv(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Returns the shared store for `namespace` (e.g. "biome-summaries"), built
+ * from the environment on first use:
+ *
+ *   SUMMARY_CACHE_BACKEND      memory | file (default) | sqlite
+ *   SUMMARY_CACHE_DIR          where file/sqlite data lives (default ./data)
+ *   SUMMARY_CACHE_TTL_HOURS    default time to live, 0 = never expire (default 720)
+ *   SUMMARY_CACHE_MAX_ENTRIES  per-namespace size limit (default 5000)
+ */
+export function getCacheStore(namespace: string, env: NodeJS.ProcessEnv = process.env): CacheStore {
+  let store = stores.get(namespace);
+  if (store) return store;
+
+  const backend = (env.SUMMARY_CACHE_BACKEND || "file").trim().toLowerCase();
+  const dir = env.SUMMARY_CACHE_DIR || path.join(process.cwd(), "data");
+  const options: CacheOptions = {
+    ttlMs: numberFromEnv(env.SUMMARY_CACHE_TTL_HOURS, 720) * HOUR_MS,
+    maxEntries: numberFromEnv(env.SUMMARY_CACHE_MAX_ENTRIES, 5000),
+  };
+
+  switch (backend) {
+    case "memory":
+      store = createMemoryStore(options);
+      break;
+    case "file":
+      store = createFileStore(path.join(dir, `${namespace}.json`), options);
+      break;
+    case "sqlite":
+      store = createSqliteStore(path.join(dir, "summaries.sqlite"), namespace, options);
+      break;
+    default:
+      throw new Error(`Unknown SUMMARY_CACHE_BACKEND: ${backend}`);
+  }
+
+  stores.set(namespace, store);
+  return store;
+}
+
+/**
+ * Cache keys carry the model and prompt version, so switching models or
+ * bumping a route's PROMPT_VERSION never serves summaries written for the old
+ * setup. This also lets fallback text be replaced once a model is configured.
+ */
+export function versionedKey(key: string, model: string, promptVersion: number) {
+  return `${key}::${model}::v${promptVersion}`;
+}
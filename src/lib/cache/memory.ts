@@ -0,0 +1,36 @@
+import { isExpired, makeEntry, type CacheEntry, type CacheOptions, type CacheStore } from "./types";
+
+/** Process-local LRU store. Contents are lost on restart. */
+export function createMemoryStore({ ttlMs, maxEntries = 1000 }: CacheOptions = {}): CacheStore {
+  // Map iteration follows insertion order, so re-inserting on read keeps the
+  // least recently used entry first.
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (isExpired(entry)) return undefined;
+      entries.set(key, entry);
+      return entry.value as T;
+    },
+    async set(key, value, ttl = ttlMs) {
+      entries.delete(key);
+      entries.set(key, makeEntry(value, ttl));
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      return entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+    async entries() {
+      return [...entries].filter(([, entry]) => !isExpired(entry));
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import fs from "fs";
+import path from "path";
+import type BetterSqlite3 from "better-sqlite3";
+import type { CacheEntry, CacheOptions, CacheStore } from "./types";
+
+const databases = new Map<string, Promise<BetterSqlite3.Database>>();
+
+/** One connection per database file, shared by every namespace stored in it. */
+function openDatabase(file: string) {
+  let db = databases.get(file);
+  if (!db) {
+    db = import("better-sqlite3").then(({ default: Database }) => {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const conn = new Database(file);
+      conn.pragma("journal_mode = WAL");
+      conn.exec(`
+        CREATE TABLE IF NOT EXISTS cache_entries (
+          namespace TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER,
+          accessed_at INTEGER NOT NULL,
+          PRIMARY KEY (namespace, key)
+        )
+      `);
+      return conn;
+    });
+    databases.set(file, db);
+  }
+  return db;
+}
+
+/**
+ * SQLite store for deployments with a persistent disk. Row-level writes make
+ * it safe under concurrent requests; eviction drops the least recently read
+ * rows of the namespace.
+ */
+export function createSqliteStore(file: string, namespace: string, { ttlMs, maxEntries = 20000 }: CacheOptions = {}): CacheStore {
+  return {
+    async get<T>(key: string) {
+      const db = await openDatabase(file);
+      const now = Date.now();
+      const row = db
+        .prepare("SELECT value FROM cache_entries WHERE namespace = ? AND key = ? AND (expires_at IS NULL OR expires_at > ?)")
+        .get(namespace, key, now) as { value: string } | undefined;
+      if (!row) return undefined;
+      db.prepare("UPDATE cache_entries SET accessed_at = ? WHERE namespace = ? AND key = ?").run(now, namespace, key);
+      return JSON.parse(row.value) as T;
+    },
+    async set(key, value, ttl = ttlMs) {
+      const db = await openDatabase(file);
+      const now = Date.now();
+      db.transaction(() => {
+        db.prepare(
+          `INSERT INTO cache_entries (namespace, key, value, created_at, expires_at, accessed_at)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT (namespace, key) DO UPDATE SET
+             value = excluded.value, created_at = excluded.created_at,
+             expires_at = excluded.expires_at, accessed_at = excluded.accessed_at`
+        ).run(namespace, key, JSON.stringify(value), now, ttl ? now + ttl : null, now);
+        db.prepare("DELETE FROM cache_entries WHERE namespace = ? AND expires_at IS NOT NULL AND expires_at <= ?").run(namespace, now);
+        db.prepare(
+          `DELETE FROM cache_entries WHERE namespace = ? AND key IN (
+             SELECT key FROM cache_entries WHERE namespace = ? ORDER BY accessed_at DESC LIMIT -1 OFFSET ?
+           )`
+        ).run(namespace, namespace, maxEntries);
+      })();
+    },
+    async delete(key) {
+      const db = await openDatabase(file);
+      return db.prepare("DELETE FROM cache_entries WHERE namespace = ? AND key = ?").run(namespace, key).changes > 0;
+    },
+    async clear() {
+      const db = await openDatabase(file);
+      db.prepare("DELETE FROM cache_entries WHERE namespace = ?").run(namespace);
+    },
+    async entries() {
+      const db = await openDatabase(file);
+      const rows = db
+        .prepare("SELECT key, value, created_at, expires_at FROM cache_entries WHERE namespace = ? AND (expires_at IS NULL OR expires_at > ?) ORDER BY key")
+        .all(namespace, Date.now()) as { key: string; value: string; created_at: number; expires_at: number | null }[];
+      return rows.map((row): [string, CacheEntry] => [
+        row.key,
+        { value: JSON.parse(row.value), createdAt: row.created_at, expiresAt: row.expires_at },
+      ]);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+export interface CacheEntry<T = unknown> {
+  value: T;
+  createdAt: number;
+  /** Epoch millis after which the entry is ignored, or null to keep it. */
+  expiresAt: number | null;
+}
+
+export interface CacheStore {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  /** `ttlMs` overrides the store's default time to live for this entry. */
+  set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  /** Every live (unexpired) entry, for inspection and bulk deletes. */
+  entries(): Promise<Array<[string, CacheEntry]>>;
+}
+
+export interface CacheOptions {
+  /** Default time to live; 0 or undefined keeps entries until evicted. */
+  ttlMs?: number;
+  /** Oldest entries are evicted once a store holds more than this. */
+  maxEntries?: number;
+}
+
+export const isExpired = (entry: CacheEntry, now = Date.now()) =>
+  entry.expiresAt !== null && entry.expiresAt <= now;
+
+export function makeEntry<T>(value: T, ttlMs: number | undefined, now = Date.now()): CacheEntry<T> {
+  return { value, createdAt: now, expiresAt: ttlMs ? now + ttlMs : null };
+}
@@ -0,0 +1,197 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Typed runtime configuration, read once from the environment and validated
+ * on server start (see src/instrumentation.ts). Only the allow-listed subset
+ * returned by publicConfig() is ever sent to the browser.
+ *
+ *   APP_ENV                    development | staging | production (default from NODE_ENV)
+ *   API_URL                    model server base URL, only ever called from the server
+ *   GOOGLE_MAPS_API_KEY        browser key, referrer-restricted in the Google console
+ *   MAP_ID                     optional Google map style id
+ *   MAPS_KEY_MODE              referrer (default) | signed
+ *   MAPS_ALLOWED_ORIGINS       extra origins allowed to receive the key, comma separated
+ *   MAPS_KEY_SIGNING_SECRET    HMAC secret for signed tickets (required in signed mode)
+ *   MAPS_KEY_TTL_SECONDS       lifetime of a signed ticket (default 300)
+ *   ANALYSIS_TIMEOUT_MS        per-attempt timeout for backend analysis calls (default 60000)
+ *   ANALYSIS_RETRIES           extra attempts after a 502/503/504 or network error (default 2)
+ */
+
+export type AppEnv = "development" | "staging" | "production";
+export type MapsKeyMode = "referrer" | "signed";
+
+export interface AppConfig {
+  env: AppEnv;
+  apiUrl: string;
+  analysis: {
+    timeoutMs: number;
+    retries: number;
+  };
+  maps: {
+    apiKey: string;
+    mapId: string;
+    keyMode: MapsKeyMode;
+    allowedOrigins: string[];
+    signingSecret: string;
+    ticketTtlSeconds: number;
+    /** Serve the key to requests without Origin/Referer (curl, server-side fetches). */
+    allowMissingReferrer: boolean;
+  };
+}
+
+interface Profile {
+  required: string[];
+  httpsOnly: boolean;
+  allowMissingReferrer: boolean;
+}
+
+const PROFILES: Record<AppEnv, Profile> = {
+  development: { required: [], httpsOnly: false, allowMissingReferrer: true },
+  staging: { required: ["API_URL", "GOOGLE_MAPS_API_KEY"], httpsOnly: false, allowMissingReferrer: false },
+  production: { required: ["API_URL", "GOOGLE_MAPS_API_KEY"], httpsOnly: true, allowMissingReferrer: false },
+};
+
+/** The only configuration the browser may see, built by publicConfig(). */
+export type PublicConfig = {
+  environment: AppEnv;
+  mapId: string;
+  /** Empty when the caller is not allowed to receive the key. */
+  googleMapsApiKey: string;
+  /** When a signed ticket was used, the time (ms) it stops being accepted. */
+  mapsKeyExpiresAt: number | null;
+};
+
+export const MAPS_TICKET_COOKIE = "maps_ticket";
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+function parseAppEnv(env: NodeJS.ProcessEnv, problems: string[]): AppEnv {
+  const value = (env.APP_ENV || (env.NODE_ENV === "production" ? "production" : "development")).trim().toLowerCase();
+  if (value === "dev") return "development";
+  if (value === "prod") return "production";
+  if (value in PROFILES) return value as AppEnv;
+  problems.push(`APP_ENV must be development, staging or production (got "${value}")`);
+  return "development";
+}
+
+/** Reads and validates the configuration, reporting every problem at once. */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const problems: string[] = [];
+  const appEnv = parseAppEnv(env, problems);
+  const profile = PROFILES[appEnv];
+
+  for (const name of profile.required) {
+    if (!env[name]?.trim()) problems.push(`${name} is required when APP_ENV=${appEnv}`);
+  }
+
+  const apiUrl = (env.API_URL || "").trim().replace(/\/+$/, "");
+  if (apiUrl) {
+    try {
+      const url = new URL(apiUrl);
+      if (profile.httpsOnly && url.protocol !== "https:") problems.push(`API_URL must use https when APP_ENV=${appEnv}`);
+    } catch {
+      problems.push(`API_URL is not a valid URL: ${apiUrl}`);
+    }
+  }
+
+  const keyMode = (env.MAPS_KEY_MODE || "referrer").trim().toLowerCase();
+  if (keyMode !== "referrer" && keyMode !== "signed") {
+    problems.push(`MAPS_KEY_MODE must be referrer or signed (got "${keyMode}")`);
+  }
+  const signingSecret = env.MAPS_KEY_SIGNING_SECRET || "";
+  if (keyMode === "signed" && signingSecret.length < 32) {
+    problems.push("MAPS_KEY_SIGNING_SECRET must be at least 32 characters when MAPS_KEY_MODE=signed");
+  }
+
+  const allowedOrigins: string[] = [];
+  for (const origin of (env.MAPS_ALLOWED_ORIGINS || "").split(",").map((o) => o.trim()).filter(Boolean)) {
+    try {
+      allowedOrigins.push(new URL(origin).origin);
+    } catch {
+      problems.push(`MAPS_ALLOWED_ORIGINS contains an invalid origin: ${origin}`);
+    }
+  }
+
+  const ttl = Number(env.MAPS_KEY_TTL_SECONDS || 300);
+  if (!Number.isInteger(ttl) || ttl <= 0) problems.push("MAPS_KEY_TTL_SECONDS must be a positive integer");
+
+  const timeoutMs = Number(env.ANALYSIS_TIMEOUT_MS || 60000);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) problems.push("ANALYSIS_TIMEOUT_MS must be a positive integer");
+  const retries = Number(env.ANALYSIS_RETRIES || 2);
+  if (!Number.isInteger(retries) || retries < 0) problems.push("ANALYSIS_RETRIES must be a non-negative integer");
+
+  if (problems.length) throw new ConfigError(problems);
+
+  return {
+    env: appEnv,
+    apiUrl,
+    analysis: { timeoutMs, retries },
+    maps: {
+      apiKey: (env.GOOGLE_MAPS_API_KEY || "").trim(),
+      mapId: (env.MAP_ID || "").trim(),
+      keyMode: keyMode as MapsKeyMode,
+      allowedOrigins,
+      signingSecret,
+      ticketTtlSeconds: ttl,
+      allowMissingReferrer: profile.allowMissingReferrer,
+    },
+  };
+}
+
+/** The process-wide configuration, loaded on first use. */
+export function getConfig(): AppConfig {
+  return ((globalThis as any).__appConfig ??= loadConfig());
+}
+
+export function publicConfig(config: AppConfig): PublicConfig {
+  return {
+    environment: config.env,
+    mapId: config.maps.mapId,
+    googleMapsApiKey: "",
+    mapsKeyExpiresAt: null,
+  };
+}
+
+function sign(secret: string, payload: string) {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/** A `<expiry ms>.<hmac>` ticket, handed out as a cookie with the map page. */
+export function issueMapsTicket(config: AppConfig, now = Date.now()) {
+  const expiresAt = now + config.maps.ticketTtlSeconds * 1000;
+  return `${expiresAt}.${sign(config.maps.signingSecret, String(expiresAt))}`;
+}
+
+/** Returns the ticket's expiry when it is authentic and unexpired, otherwise null. */
+export function verifyMapsTicket(config: AppConfig, ticket: string | undefined, now = Date.now()): number | null {
+  const [expiry, mac] = (ticket || "").split(".");
+  const expiresAt = Number(expiry);
+  if (!mac || !Number.isFinite(expiresAt) || expiresAt <= now) return null;
+
+  const expected = Buffer.from(sign(config.maps.signingSecret, expiry));
+  const given = Buffer.from(mac);
+  return given.length === expected.length && timingSafeEqual(given, expected) ? expiresAt : null;
+}
+
+/**
+ * Whether a request comes from a page we serve: its Origin (or Referer) must
+ * be this site or one of MAPS_ALLOWED_ORIGINS. Google enforces the same
+ * restriction on the key itself; this only keeps it out of casual scrapers.
+ */
+export function isAllowedOrigin(config: AppConfig, headers: Headers, ownOrigin: string) {
+  const source = headers.get("origin") || headers.get("referer");
+  if (!source) return config.maps.allowMissingReferrer;
+
+  let origin: string;
+  try {
+    origin = new URL(source).origin;
+  } catch {
+    return false;
+  }
+  return origin === ownOrigin || config.maps.allowedOrigins.includes(origin);
+}
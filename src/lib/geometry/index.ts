@@ -0,0 +1,3 @@
+export { haversineM, measure, polygonAreaM2, ringPerimeterM, type Measurements } from "./measure";
+export { simplifyPolygons, simplifyRing, simplifyToLimit } from "./simplify";
+export { GEOMETRY_LIMITS, validateGeometry, type GeometryIssue, type GeometryReport } from "./validate";
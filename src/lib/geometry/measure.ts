@@ -0,0 +1,113 @@
+import { boundsOf, deg2rad, EARTH_RADIUS_M, normalizeLng, rad2deg, ringAreaM2, signedArea, toVector, type Point, type PolygonRings } from "@/lib/sampling";
+
+export interface Measurements {
+  areaKm2: number;
+  perimeterKm: number;
+  /** Area-weighted centre of mass. */
+  centroid: { lat: number; lng: number };
+  /** `[west, south, east, north]`; west > east when the shape crosses ±180°. */
+  bbox: [number, number, number, number];
+  vertexCount: number;
+  polygonCount: number;
+}
+
+/** Great-circle distance in metres. */
+export function haversineM([lat1, lng1]: Point, [lat2, lng2]: Point): number {
+  const dLat = deg2rad(lat2 - lat1);
+  const dLng = deg2rad(lng2 - lng1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function ringPerimeterM(ring: Point[]): number {
+  return ring.reduce((sum, p, i) => sum + haversineM(p, ring[(i + 1) % ring.length]), 0);
+}
+
+/** Geodesic area of a polygon, holes subtracted. */
+export function polygonAreaM2([outer, ...holes]: PolygonRings): number {
+  return holes.reduce((area, hole) => area - ringAreaM2(hole), ringAreaM2(outer));
+}
+
+/** Planar centre of mass of an outer ring minus its holes, in (unwrapped) lat/lng. */
+function polygonCentroid(rings: PolygonRings): Point {
+  let sumArea = 0, sumLat = 0, sumLng = 0;
+  rings.forEach((ring, i) => {
+    const plane = ring.map(([lat, lng]): [number, number] => [lng, lat]);
+    const area = Math.abs(signedArea(plane));
+    let cx = 0, cy = 0, twice = 0;
+    for (let k = 0, j = plane.length - 1; k < plane.length; j = k++) {
+      const f = plane[j][0] * plane[k][1] - plane[k][0] * plane[j][1];
+      twice += f;
+      cx += (plane[j][0] + plane[k][0]) * f;
+      cy += (plane[j][1] + plane[k][1]) * f;
+    }
+    const sign = i === 0 ? 1 : -1;
+    sumArea += sign * area;
+    sumLng += sign * area * (twice ? cx / (3 * twice) : plane[0][0]);
+    sumLat += sign * area * (twice ? cy / (3 * twice) : plane[0][1]);
+  });
+  return sumArea ? [sumLat / sumArea, sumLng / sumArea] : rings[0][0];
+}
+
+/**
+ * Smallest longitude range covering every interval, which may wrap past
+ * ±180°: the complement of the widest gap between them.
+ */
+function lngExtent(intervals: [number, number][]): [number, number] {
+  if (intervals.some(([w, e]) => e - w >= 360)) return [-180, 180];
+  const spans = intervals
+    .map(([w, e]): [number, number] => {
+      const west = normalizeLng(w);
+      return [west, west + (e - w)];
+    })
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span[0] <= last[1]) last[1] = Math.max(last[1], span[1]);
+    else merged.push([...span]);
+  }
+
+  let bestGap = -Infinity, west = merged[0][0], east = merged[merged.length - 1][1];
+  merged.forEach(([, end], i) => {
+    const nextStart = i + 1 < merged.length ? merged[i + 1][0] : merged[0][0] + 360;
+    if (nextStart - end > bestGap) {
+      bestGap = nextStart - end;
+      west = nextStart;
+      east = end;
+    }
+  });
+  if (bestGap <= 0) return [-180, 180];
+  return [normalizeLng(west), east > 180 ? normalizeLng(east) : east];
+}
+
+/** Measurements for polygons whose rings are already unwrapped (see unwrapRing). */
+export function measure(polygons: PolygonRings[]): Measurements {
+  const areas = polygons.map(polygonAreaM2);
+  const areaM2 = areas.reduce((a, b) => a + b, 0);
+
+  // Average the polygon centroids as unit vectors so parts on either side of ±180° combine correctly.
+  const sum = [0, 0, 0];
+  polygons.forEach((rings, i) => {
+    const v = toVector(polygonCentroid(rings));
+    const w = areas[i] || 1;
+    sum[0] += v[0] * w;
+    sum[1] += v[1] * w;
+    sum[2] += v[2] * w;
+  });
+  const lat = rad2deg(Math.atan2(sum[2], Math.hypot(sum[0], sum[1])));
+  const lng = normalizeLng(rad2deg(Math.atan2(sum[1], sum[0])));
+
+  const bounds = polygons.map(([outer]) => boundsOf(outer));
+  const [west, east] = lngExtent(bounds.map((b) => [b.lngMin, b.lngMax]));
+
+  return {
+    areaKm2: areaM2 / 1e6,
+    perimeterKm: polygons.flat().reduce((sum, ring) => sum + ringPerimeterM(ring), 0) / 1000,
+    centroid: { lat, lng },
+    bbox: [west, Math.min(...bounds.map((b) => b.latMin)), east, Math.max(...bounds.map((b) => b.latMax))],
+    vertexCount: polygons.flat().reduce((n, ring) => n + ring.length, 0),
+    polygonCount: polygons.length,
+  };
+}
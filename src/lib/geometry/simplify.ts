@@ -0,0 +1,84 @@
+import { deg2rad, EARTH_RADIUS_M, type Point, type PolygonRings } from "@/lib/sampling";
+
+const M_PER_DEG = (Math.PI * EARTH_RADIUS_M) / 180;
+
+/** Douglas-Peucker on an open chain of local metric coordinates; returns kept indices. */
+function simplifyChain(xy: [number, number][], from: number, to: number, tolerance: number, keep: Set<number>) {
+  const [ax, ay] = xy[from];
+  const [bx, by] = xy[to];
+  const length = Math.hypot(bx - ax, by - ay);
+  let farthest = -1, maxDist = tolerance;
+  for (let i = from + 1; i < to; i++) {
+    const [px, py] = xy[i];
+    const dist = length
+      ? Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length
+      : Math.hypot(px - ax, py - ay);
+    if (dist > maxDist) {
+      maxDist = dist;
+      farthest = i;
+    }
+  }
+  if (farthest < 0) return;
+  keep.add(farthest);
+  simplifyChain(xy, from, farthest, tolerance, keep);
+  simplifyChain(xy, farthest, to, tolerance, keep);
+}
+
+/**
+ * Simplifies a ring (unwrapped, open) to within `toleranceM` metres. Returns
+ * null when the ring collapses below three vertices.
+ */
+export function simplifyRing(ring: Point[], toleranceM: number): Point[] | null {
+  if (ring.length <= 3) return ring;
+  const cos = Math.cos(deg2rad(ring.reduce((sum, [lat]) => sum + lat, 0) / ring.length));
+  const xy = ring.map(([lat, lng]): [number, number] => [lng * cos * M_PER_DEG, lat * M_PER_DEG]);
+
+  // Anchor the loop at vertex 0 and the vertex farthest from it, then simplify both halves.
+  let far = 1;
+  xy.forEach(([x, y], i) => {
+    if (Math.hypot(x - xy[0][0], y - xy[0][1]) > Math.hypot(xy[far][0] - xy[0][0], xy[far][1] - xy[0][1])) far = i;
+  });
+  const closed = [...xy, xy[0]];
+  const keep = new Set([0, far]);
+  simplifyChain(closed, 0, far, toleranceM, keep);
+  simplifyChain(closed, far, closed.length - 1, toleranceM, keep);
+
+  const kept = [...keep].filter((i) => i < ring.length).sort((a, b) => a - b).map((i) => ring[i]);
+  return kept.length >= 3 ? kept : null;
+}
+
+export function simplifyPolygons(polygons: PolygonRings[], toleranceM: number): PolygonRings[] {
+  return polygons
+    .map((rings) => {
+      const outer = simplifyRing(rings[0], toleranceM);
+      if (!outer) return null;
+      const holes = rings.slice(1).map((hole) => simplifyRing(hole, toleranceM)).filter((h): h is Point[] => h !== null);
+      return [outer, ...holes];
+    })
+    .filter((p): p is PolygonRings => p !== null);
+}
+
+const vertexCount = (polygons: PolygonRings[]) => polygons.flat().reduce((n, ring) => n + ring.length, 0);
+
+/**
+ * The least simplification that brings the total vertex count to `maxVertices`
+ * or below without dropping a polygon, found by bisecting the tolerance.
+ * Returns null when no tolerance manages both.
+ */
+export function simplifyToLimit(polygons: PolygonRings[], maxVertices: number, extentM: number) {
+  let lo = 0, hi = Math.max(extentM, 1);
+  let best: { polygons: PolygonRings[]; toleranceM: number } | null = null;
+  for (let i = 0; i < 40 && hi - lo > 0.01; i++) {
+    const mid = (lo + hi) / 2;
+    const candidate = simplifyPolygons(polygons, mid);
+    if (candidate.length < polygons.length) {
+      hi = mid; // something collapsed: too coarse
+    } else if (vertexCount(candidate) > maxVertices) {
+      lo = mid;
+    } else {
+      best = { polygons: candidate, toleranceM: mid };
+      hi = mid;
+    }
+  }
+  return best && { ...best, vertexCount: vertexCount(best.polygons) };
+}
@@ -0,0 +1,233 @@
+import {
+  normalizeLng,
+  pointInPolygon,
+  selfIntersects,
+  signedArea,
+  unwrapRing,
+  type Point,
+  type PolygonRings,
+} from "@/lib/sampling";
+import { haversineM, measure, polygonAreaM2, type Measurements } from "./measure";
+import { simplifyToLimit } from "./simplify";
+
+/** Size limits applied to anything bound for /analyze-by-biome. */
+export const GEOMETRY_LIMITS = {
+  /** Larger areas are rejected; the backend only samples 500 points per request. */
+  maxAreaKm2: 10_000_000,
+  /** Smaller areas are flagged: they rarely span more than one climate cell. */
+  minAreaKm2: 0.01,
+  /** Above this the report includes a simplified copy. */
+  maxVertices: 500,
+  /** Above this a shape is refused before any repair; the self-intersection check is quadratic. */
+  maxInputVertices: 10_000,
+};
+
+export interface GeometryIssue {
+  code:
+    | "lat_out_of_range"
+    | "lng_wrapped"
+    | "duplicate_vertices"
+    | "collinear_vertices"
+    | "too_few_vertices"
+    | "encloses_pole"
+    | "self_intersection"
+    | "winding"
+    | "hole_outside"
+    | "too_large"
+    | "too_small"
+    | "too_many_vertices";
+  severity: "error" | "warning";
+  message: string;
+  /** True when the returned geometry already has the problem fixed. */
+  repaired: boolean;
+}
+
+export interface GeometryReport {
+  valid: boolean;
+  issues: GeometryIssue[];
+  /** The repaired polygons, longitudes in [-180, 180). */
+  polygons: PolygonRings[];
+  /** Index into `polygons` of the one with the largest area. */
+  largest: number;
+  measurements?: Measurements;
+  simplified?: { polygons: PolygonRings[]; vertexCount: number; toleranceM: number };
+}
+
+const cross = (a: Point, b: Point, c: Point) =>
+  (b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1]);
+
+const normalized = (polygons: PolygonRings[]) =>
+  polygons.map((rings) => rings.map((ring) => ring.map(([lat, lng]): Point => [lat, normalizeLng(lng)])));
+
+/** Drops the closing vertex and consecutive repeats; returns the ring and how many went. */
+function dedupe(ring: Point[]): [Point[], number] {
+  const out = ring.filter((p, i) => {
+    const prev = ring[(i + ring.length - 1) % ring.length];
+    return ring.length === 1 || p[0] !== prev[0] || p[1] !== prev[1];
+  });
+  return [out, ring.length - out.length];
+}
+
+/**
+ * Removes vertices lying on the line through their neighbours, spikes and
+ * repeats left behind by earlier removals included. One pass with a stack,
+ * then the seam where the ring closes is trimmed from both ends.
+ */
+function dropCollinear(ring: Point[]): [Point[], number] {
+  const out: Point[] = [];
+  for (const p of ring) {
+    while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) === 0) out.pop();
+    const top = out[out.length - 1];
+    if (!top || top[0] !== p[0] || top[1] !== p[1]) out.push(p);
+  }
+
+  let start = 0;
+  for (let changed = true; changed && out.length - start > 2; ) {
+    changed = false;
+    const n = out.length;
+    if (cross(out[n - 2], out[n - 1], out[start]) === 0) {
+      out.pop();
+      changed = true;
+    } else if (cross(out[n - 1], out[start], out[start + 1]) === 0) {
+      start++;
+      changed = true;
+    }
+  }
+  const kept = out.slice(start);
+  return [kept, ring.length - kept.length];
+}
+
+/**
+ * Checks polygons (rings in `[lat, lng]`, holes after their outer ring) and
+ * fixes what can be fixed without guessing: wrapped longitudes, repeated
+ * and collinear vertices, ring winding (RFC 7946: outer counterclockwise,
+ * holes clockwise) and holes outside their polygon. Out-of-range latitudes,
+ * self-intersections and rings around a pole are reported as errors, as is
+ * anything above `maxInputVertices`, which is refused unchecked.
+ */
+export function validateGeometry(
+  input: PolygonRings[],
+  { maxInputVertices = GEOMETRY_LIMITS.maxInputVertices }: { maxInputVertices?: number } = {}
+): GeometryReport {
+  const issues: GeometryIssue[] = [];
+  const issue = (code: GeometryIssue["code"], severity: GeometryIssue["severity"], message: string, repaired = false) =>
+    issues.push({ code, severity, message, repaired });
+
+  const inputVertices = input.flat().reduce((n, ring) => n + ring.length, 0);
+  if (inputVertices > maxInputVertices) {
+    issue("too_many_vertices", "error", `${inputVertices} vertices, above the ${maxInputVertices} that can be checked; simplify the shape first`);
+    return { valid: false, issues, polygons: [], largest: 0 };
+  }
+
+  const polygons: PolygonRings[] = [];
+  let structural = false;
+
+  input.forEach((rings, pi) => {
+    const prefix = input.length > 1 ? `Polygon ${pi + 1}, ` : "";
+    const kept: Point[][] = [];
+
+    rings.forEach((raw, ri) => {
+      const label = `${prefix}${ri === 0 ? "outer ring" : `hole ${ri}`}`;
+
+      const badLat = raw.findIndex(([lat]) => !(Math.abs(lat) <= 90));
+      if (badLat >= 0) {
+        issue("lat_out_of_range", "error", `${label}: vertex ${badLat} has latitude ${raw[badLat][0]}, outside -90..90`);
+        structural = true;
+        return;
+      }
+      if (raw.some(([, lng]) => lng < -180 || lng > 180)) {
+        issue("lng_wrapped", "warning", `${label}: longitudes outside -180..180 were wrapped`, true);
+      }
+      const wrapped = raw.map(([lat, lng]): Point => [lat, normalizeLng(lng)]);
+
+      const [first, last] = [wrapped[0], wrapped[wrapped.length - 1]];
+      const open = wrapped.length > 1 && first[0] === last[0] && first[1] === last[1] ? wrapped.slice(0, -1) : wrapped;
+      const [deduped, repeats] = dedupe(open);
+      if (repeats) issue("duplicate_vertices", "warning", `${label}: removed ${repeats} repeated vertices`, true);
+
+      const tooFew = () => {
+        if (ri === 0) {
+          issue("too_few_vertices", "error", `${label}: fewer than 3 distinct, non-collinear vertices`);
+          structural = true;
+        } else {
+          issue("too_few_vertices", "warning", `${label}: degenerate hole removed`, true);
+        }
+      };
+      if (deduped.length < 3) return tooFew();
+
+      let ring = unwrapRing(deduped);
+      if (!ring) {
+        issue("encloses_pole", "error", `${label}: the ring encircles a pole, which is not supported`);
+        structural = true;
+        return;
+      }
+
+      const [cleaned, collinear] = dropCollinear(ring);
+      if (collinear) issue("collinear_vertices", "warning", `${label}: removed ${collinear} collinear or spike vertices`, true);
+      ring = cleaned;
+
+      if (ring.length >= 3 && selfIntersects(ring.map(([lat, lng]) => [lng, lat]))) {
+        issue("self_intersection", "error", `${label}: edges cross each other`);
+        structural = true;
+        return;
+      }
+      if (ring.length < 3 || signedArea(ring.map(([lat, lng]) => [lng, lat])) === 0) return tooFew();
+
+      if (ri > 0 && kept.length) {
+        // Shift the hole by whole turns onto its outer ring before comparing.
+        const shift = 360 * Math.round((ring[0][1] - kept[0][0][1]) / 360);
+        ring = ring.map(([lat, lng]): Point => [lat, lng - shift]);
+        if (!pointInPolygon(ring[0], kept[0])) {
+          issue("hole_outside", "warning", `${label}: lies outside the outer ring and was removed`, true);
+          return;
+        }
+      }
+
+      const ccw = signedArea(ring.map(([lat, lng]) => [lng, lat])) > 0;
+      if (ccw !== (ri === 0)) {
+        ring = [...ring].reverse();
+        issue("winding", "warning", `${label}: rewound ${ri === 0 ? "counterclockwise" : "clockwise"}`, true);
+      }
+
+      if (ri === 0 || kept.length) kept.push(ring);
+    });
+
+    if (kept.length) polygons.push(kept);
+  });
+
+  const report: GeometryReport = {
+    valid: false,
+    issues,
+    polygons: normalized(polygons),
+    largest: polygons.reduce((best, p, i) => (polygonAreaM2(p) > polygonAreaM2(polygons[best]) ? i : best), 0),
+  };
+  if (structural || polygons.length === 0) return report;
+
+  const measurements = measure(polygons);
+  report.measurements = measurements;
+
+  if (measurements.areaKm2 > GEOMETRY_LIMITS.maxAreaKm2) {
+    issue("too_large", "error", `Area is ${Math.round(measurements.areaKm2)} km², above the ${GEOMETRY_LIMITS.maxAreaKm2} km² limit`);
+  } else if (measurements.areaKm2 < GEOMETRY_LIMITS.minAreaKm2) {
+    issue("too_small", "warning", `Area is ${measurements.areaKm2.toFixed(4)} km²; results will reflect a single point`);
+  }
+
+  if (measurements.vertexCount > GEOMETRY_LIMITS.maxVertices) {
+    const [west, south, east, north] = measurements.bbox;
+    const extentM = haversineM([south, west], [north, east]);
+    const simplified = simplifyToLimit(polygons, GEOMETRY_LIMITS.maxVertices, extentM);
+    if (simplified) {
+      report.simplified = { ...simplified, polygons: normalized(simplified.polygons) };
+      issue(
+        "too_many_vertices",
+        "warning",
+        `${measurements.vertexCount} vertices; a copy simplified to ${simplified.vertexCount} (tolerance ${Math.round(simplified.toleranceM)} m) is included`
+      );
+    } else {
+      issue("too_many_vertices", "warning", `${measurements.vertexCount} vertices, and no simplification keeps every polygon under ${GEOMETRY_LIMITS.maxVertices}`);
+    }
+  }
+
+  report.valid = !issues.some((i) => i.severity === "error");
+  return report;
+}
@@ -0,0 +1,35 @@
+import { compareAreas, type PresenceRow } from "@/lib/analysis/compare";
+import type { AnalysisResult } from "@/lib/analysis/types";
+
+/** How a re-run differs from the saved result, matched on scientific names like the area comparison. */
+export interface ResultDiff {
+  speciesAdded: PresenceRow[];
+  speciesRemoved: PresenceRow[];
+  /** Species in both whose phenophase changed; `detail[0]` is before, `detail[1]` after. */
+  phenophaseChanged: PresenceRow[];
+  pestsAdded: PresenceRow[];
+  pestsRemoved: PresenceRow[];
+  biomesAdded: string[];
+  biomesRemoved: string[];
+  unchanged: boolean;
+}
+
+export function diffResults(before: AnalysisResult, after: AnalysisResult): ResultDiff {
+  const { species, pests } = compareAreas([
+    { name: "before", result: before },
+    { name: "after", result: after },
+  ]);
+  const only = (rows: PresenceRow[], area: number) => rows.filter((r) => r.areas.length === 1 && r.areas[0] === area);
+  const codes = (result: AnalysisResult) => result.results.map((r) => r.biome);
+
+  const diff = {
+    speciesAdded: only(species, 1),
+    speciesRemoved: only(species, 0),
+    phenophaseChanged: species.filter((r) => r.shared && r.detail[0] !== r.detail[1]),
+    pestsAdded: only(pests, 1),
+    pestsRemoved: only(pests, 0),
+    biomesAdded: codes(after).filter((code) => !codes(before).includes(code)),
+    biomesRemoved: codes(before).filter((code) => !codes(after).includes(code)),
+  };
+  return { ...diff, unchanged: Object.values(diff).every((list) => list.length === 0) };
+}
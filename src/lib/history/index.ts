@@ -0,0 +1,3 @@
+export { diffResults, type ResultDiff } from "./diff";
+export { createIndexedDbHistory } from "./indexeddb";
+export type { HistoryStore, SavedAnalysis } from "./types";
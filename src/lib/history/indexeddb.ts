@@ -0,0 +1,47 @@
+import type { HistoryStore, SavedAnalysis } from "./types";
+
+const DB_NAME = "calyx";
+const DB_VERSION = 1;
+const STORE = "analyses";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(STORE, { keyPath: "id" });
+  };
+  return request(open);
+}
+
+/**
+ * Analyses kept in the browser's IndexedDB, so they survive reloads but stay
+ * on this device. The database opens on first use.
+ */
+export function createIndexedDbHistory(): HistoryStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const store = async (mode: IDBTransactionMode) => {
+    db ??= openDatabase();
+    return (await db).transaction(STORE, mode).objectStore(STORE);
+  };
+
+  return {
+    async list() {
+      const entries = await request((await store("readonly")).getAll() as IDBRequest<SavedAnalysis[]>);
+      return entries.sort((a, b) => b.savedAt - a.savedAt);
+    },
+    async get(id) {
+      return request((await store("readonly")).get(id) as IDBRequest<SavedAnalysis | undefined>);
+    },
+    async put(entry) {
+      await request((await store("readwrite")).put(entry));
+    },
+    async delete(id) {
+      await request((await store("readwrite")).delete(id));
+    },
+  };
+}
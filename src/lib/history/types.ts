@@ -0,0 +1,26 @@
+import type { AnalysisExport } from "@/lib/analysis/export";
+import type { Point } from "@/lib/sampling";
+
+/**
+ * One finished analysis as kept in the browser: what was drawn, what was
+ * asked, what came back and the AI summaries fetched for it so far.
+ */
+export interface SavedAnalysis extends AnalysisExport {
+  id: string;
+  /** Epoch millis of the first save. */
+  savedAt: number;
+  /** Epoch millis of the last change (rename, summaries, re-run kept). */
+  updatedAt: number;
+  /** Every path of the drawn outline, for putting it back on the map. */
+  paths: Point[][];
+  /** Language of `overviews` and `details`. */
+  locale: string;
+}
+
+export interface HistoryStore {
+  /** Newest first. */
+  list(): Promise<SavedAnalysis[]>;
+  get(id: string): Promise<SavedAnalysis | undefined>;
+  put(entry: SavedAnalysis): Promise<void>;
+  delete(id: string): Promise<void>;
+}
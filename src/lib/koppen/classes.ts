@@ -0,0 +1,53 @@
+/**
+ * Köppen–Geiger classes as numbered in the backend raster (KOPPEN_CLASSES in
+ * backend/main.py), with the usual Beck et al. (2018) legend colours. The map
+ * overlay, its legend and the biome modal all read from this table.
+ */
+
+export interface KoppenClass {
+  /** Raster value, 1-28. */
+  id: number;
+  code: string;
+  name: string;
+  color: string;
+}
+
+export const KOPPEN_CLASSES: readonly KoppenClass[] = [
+  { id: 1, code: "Af", name: "Tropical rainforest", color: "#0000ff" },
+  { id: 2, code: "Am", name: "Tropical monsoon", color: "#0078ff" },
+  { id: 3, code: "Aw", name: "Tropical savanna", color: "#46aafa" },
+  { id: 4, code: "BWh", name: "Hot desert", color: "#ff0000" },
+  { id: 5, code: "BWk", name: "Cold desert", color: "#ff9696" },
+  { id: 6, code: "BSh", name: "Hot semi-arid", color: "#f5a500" },
+  { id: 7, code: "BSk", name: "Cold semi-arid", color: "#ffdc64" },
+  { id: 8, code: "Csa", name: "Hot-summer Mediterranean", color: "#ffff00" },
+  { id: 9, code: "Csb", name: "Warm-summer Mediterranean", color: "#c8c800" },
+  { id: 10, code: "Cwa", name: "Monsoon-influenced humid subtropical", color: "#96ff96" },
+  { id: 11, code: "Cwb", name: "Subtropical highland", color: "#64c864" },
+  { id: 12, code: "Cfa", name: "Humid subtropical", color: "#c8ff50" },
+  { id: 13, code: "Cfb", name: "Temperate oceanic", color: "#64ff50" },
+  { id: 14, code: "Cfc", name: "Subpolar oceanic", color: "#32c800" },
+  { id: 15, code: "Dsa", name: "Hot-summer humid continental", color: "#ff00ff" },
+  { id: 16, code: "Dsb", name: "Warm-summer humid continental", color: "#c800c8" },
+  { id: 17, code: "Dsc", name: "Subarctic", color: "#963296" },
+  { id: 18, code: "Dsd", name: "Severely cold subarctic", color: "#966496" },
+  { id: 19, code: "Dwa", name: "Monsoon-influenced hot-summer humid continental", color: "#aaafff" },
+  { id: 20, code: "Dwb", name: "Monsoon-influenced warm-summer humid continental", color: "#5a78dc" },
+  { id: 21, code: "Dwc", name: "Monsoon-influenced subarctic", color: "#4b50b4" },
+  { id: 22, code: "Dwd", name: "Monsoon-influenced severely cold subarctic", color: "#320087" },
+  { id: 23, code: "Dfa", name: "Hot-summer humid continental", color: "#00ffff" },
+  { id: 24, code: "Dfb", name: "Warm-summer humid continental", color: "#37c8ff" },
+  { id: 25, code: "Dfc", name: "Subarctic", color: "#007d7d" },
+  { id: 26, code: "Dfd", name: "Severely cold subarctic", color: "#00465f" },
+  { id: 27, code: "ET", name: "Tundra", color: "#b2b2b2" },
+  { id: 28, code: "EF", name: "Ice cap", color: "#666666" },
+];
+
+const byId = new Map(KOPPEN_CLASSES.map((c) => [c.id, c]));
+const byCode = new Map(KOPPEN_CLASSES.map((c) => [c.code, c]));
+
+/** The class for a raster value; undefined for 0 (no data) or anything unknown. */
+export const koppenById = (id: number) => byId.get(id);
+
+/** The class for a code such as "Cfa", as the analysis reports it. */
+export const koppenByCode = (code: string) => byCode.get(code);
@@ -0,0 +1,52 @@
+import { createMemoryStore, type CacheStore } from "@/lib/cache";
+import { getConfig } from "@/lib/config";
+import { KOPPEN_TILE_SIZE, tileKey, type TileCoord } from "./tiles";
+
+/** A failed tile fetch, carrying the status the route should answer with. */
+export class KoppenTileError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "KoppenTileError";
+  }
+}
+
+// Tiles are 4 KB each and requested in bursts, so they get their own
+// in-process LRU (about 8 MB) rather than the shared summary cache backend.
+const MAX_CACHED_TILES = 2000;
+const tiles: CacheStore = ((globalThis as any).__koppenTiles ??= createMemoryStore({ maxEntries: MAX_CACHED_TILES }));
+
+// One tile is a single windowed raster read; anything slower is a stuck backend.
+const TILE_TIMEOUT_MS = 15_000;
+
+/**
+ * Class ids for one tile from the model server's /koppen/tile, row-major,
+ * KOPPEN_TILE_SIZE square. The raster never changes, so tiles are kept in
+ * memory for the life of the process.
+ */
+export async function fetchKoppenTile(tile: TileCoord): Promise<Uint8Array> {
+  const key = tileKey(tile);
+  const hit = await tiles.get<Uint8Array>(key);
+  if (hit) return hit;
+
+  const { apiUrl } = getConfig();
+  if (!apiUrl) throw new KoppenTileError("Analysis backend is not configured (API_URL)", 503);
+
+  let res: Response;
+  try {
+    res = await fetch(`${apiUrl}/koppen/tile/${key}`, { signal: AbortSignal.timeout(TILE_TIMEOUT_MS), cache: "no-store" });
+  } catch (e: any) {
+    if (e?.name === "TimeoutError") throw new KoppenTileError(`Köppen tile timed out after ${TILE_TIMEOUT_MS} ms`, 504);
+    throw new KoppenTileError("Analysis backend is unreachable", 502);
+  }
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new KoppenTileError(text.slice(0, 200) || res.statusText, res.status >= 400 && res.status < 500 ? res.status : 502);
+  }
+
+  const ids = new Uint8Array(await res.arrayBuffer());
+  if (ids.length !== KOPPEN_TILE_SIZE * KOPPEN_TILE_SIZE) {
+    throw new KoppenTileError(`Köppen tile has ${ids.length} cells, expected ${KOPPEN_TILE_SIZE * KOPPEN_TILE_SIZE}`, 502);
+  }
+  await tiles.set(key, ids);
+  return ids;
+}
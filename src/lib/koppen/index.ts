@@ -0,0 +1,3 @@
+export { KOPPEN_CLASSES, koppenByCode, koppenById, type KoppenClass } from "./classes";
+export { fetchKoppenTile, KoppenTileError } from "./client";
+export { cellAt, isValidTile, KOPPEN_MAX_ZOOM, KOPPEN_TILE_SIZE, sourceTile, tileKey, type TileCoord } from "./tiles";
@@ -0,0 +1,48 @@
+/**
+ * Web Mercator tile maths for the Köppen overlay. The backend samples each
+ * tile on a KOPPEN_TILE_SIZE square grid up to KOPPEN_MAX_ZOOM; deeper zooms
+ * reuse the enclosing tile.
+ */
+
+export const KOPPEN_TILE_SIZE = 64;
+export const KOPPEN_MAX_ZOOM = 10;
+
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export function isValidTile({ z, x, y }: TileCoord) {
+  const n = 2 ** z;
+  return [z, x, y].every(Number.isInteger) && z >= 0 && z <= KOPPEN_MAX_ZOOM && x >= 0 && x < n && y >= 0 && y < n;
+}
+
+export const tileKey = ({ z, x, y }: TileCoord) => `${z}/${x}/${y}`;
+
+/**
+ * The grid tile drawn for map tile `tile` and the part of it to show, in grid
+ * cells: all of it up to KOPPEN_MAX_ZOOM, a 1/2^n square of the ancestor
+ * below that.
+ */
+export function sourceTile(tile: TileCoord): { source: TileCoord; sx: number; sy: number; size: number } {
+  const depth = Math.max(0, tile.z - KOPPEN_MAX_ZOOM);
+  const scale = 2 ** depth;
+  const source = { z: tile.z - depth, x: Math.floor(tile.x / scale), y: Math.floor(tile.y / scale) };
+  const size = KOPPEN_TILE_SIZE / scale;
+  return { source, sx: (tile.x - source.x * scale) * size, sy: (tile.y - source.y * scale) * size, size };
+}
+
+/** The grid tile and cell (row-major index) under a point, at `zoom` capped to KOPPEN_MAX_ZOOM. */
+export function cellAt(lat: number, lng: number, zoom: number): { tile: TileCoord; index: number } {
+  const z = Math.max(0, Math.min(KOPPEN_MAX_ZOOM, Math.floor(zoom)));
+  const n = 2 ** z;
+  const sin = Math.sin((Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180);
+  const fx = (((((lng + 180) / 360) % 1) + 1) % 1) * n;
+  const fy = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * n;
+  const x = Math.min(n - 1, Math.floor(fx));
+  const y = Math.min(n - 1, Math.max(0, Math.floor(fy)));
+  const col = Math.min(KOPPEN_TILE_SIZE - 1, Math.floor((fx - x) * KOPPEN_TILE_SIZE));
+  const row = Math.min(KOPPEN_TILE_SIZE - 1, Math.max(0, Math.floor((fy - y) * KOPPEN_TILE_SIZE)));
+  return { tile: { z, x, y }, index: row * KOPPEN_TILE_SIZE + col };
+}
@@ -0,0 +1,62 @@
+import type { LlmProvider } from "./types";
+
+/**
+ * Daily token budget for paid providers (LLM_DAILY_TOKEN_BUDGET, 0 or unset
+ * = unlimited). Usage is estimated from text length and kept in process
+ * memory; once the day's budget is spent getLlmProvider() returns null and
+ * the summary routes serve their fallback text until the next UTC day.
+ */
+
+/** Thrown instead of calling the model once the day's budget is spent. */
+export class TokenBudgetError extends Error {
+  constructor() {
+    super("Daily LLM token budget is spent");
+    this.name = "TokenBudgetError";
+  }
+}
+
+const state: { day: string; used: number } = ((globalThis as any).__llmTokenBudget ??= { day: "", used: 0 });
+
+// Roughly four characters per token for English text; good enough for a spend cap.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function dailyBudget(env: NodeJS.ProcessEnv) {
+  const n = Number(env.LLM_DAILY_TOKEN_BUDGET);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+function currentUsage() {
+  if (state.day !== today()) {
+    state.day = today();
+    state.used = 0;
+  }
+  return state.used;
+}
+
+export function budgetExhausted(env: NodeJS.ProcessEnv = process.env) {
+  const budget = dailyBudget(env);
+  return budget > 0 && currentUsage() >= budget;
+}
+
+export function tokenUsage(env: NodeJS.ProcessEnv = process.env) {
+  return { day: today(), used: currentUsage(), budget: dailyBudget(env) };
+}
+
+/**
+ * Wraps a provider so every call is checked and counted against the daily
+ * budget, including repair retries made after the provider was picked.
+ */
+export function withTokenBudget(provider: LlmProvider, env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  return {
+    model: provider.model,
+    async generate(request) {
+      if (budgetExhausted(env)) throw new TokenBudgetError();
+      const text = await provider.generate(request);
+      currentUsage();
+      state.used += estimateTokens(request.prompt) + estimateTokens(text);
+      return text;
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { LlmProvider } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash-lite";
+
+export function createGeminiProvider(apiKey: string, model = DEFAULT_GEMINI_MODEL): LlmProvider {
+  return {
+    model,
+    async generate({ prompt }) {
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${encodeURIComponent(apiKey)}`;
+      const resp = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }] }),
+      });
+
+      if (!resp.ok) {
+        throw new Error(`Gemini API Error: ${await resp.text()}`);
+      }
+
+      const data = await resp.json();
+      return data?.candidates?.[0]?.content?.parts?.[0]?.text || "";
+    },
+  };
+}
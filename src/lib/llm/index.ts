@@ -0,0 +1,45 @@
+import { budgetExhausted, withTokenBudget } from "./budget";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./gemini";
+import { createOpenAiProvider } from "./openai";
+import { createStubProvider } from "./stub";
+import type { LlmProvider } from "./types";
+
+export type { LlmProvider, LlmRequest } from "./types";
+export { summaryMap, summaryObject } from "./schema";
+export type { Schema, SummaryRules } from "./schema";
+export { generateStructured, StructuredOutputError } from "./structured";
+export { TokenBudgetError, tokenUsage } from "./budget";
+
+/** `modelUsed` recorded for template text served when no provider is configured. */
+export const FALLBACK_MODEL = "fallback/no-key";
+
+/**
+ * Picks the summary model from the environment:
+ *
+ *   LLM_PROVIDER=gemini  GEMINI_API_KEY (or GOOGLE_GEMINI_API_KEY), GEMINI_MODEL
+ *   LLM_PROVIDER=openai  OPENAI_MODEL, OPENAI_BASE_URL, OPENAI_API_KEY
+ *   LLM_PROVIDER=stub    no settings, never calls out
+ *
+ * Without LLM_PROVIDER, Gemini is used when a key is present. Returns null
+ * when nothing usable is configured, or when the paid providers have spent
+ * LLM_DAILY_TOKEN_BUDGET, so routes can serve their fallback text.
+ */
+export function getLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider | null {
+  const provider = (env.LLM_PROVIDER || "gemini").trim().toLowerCase();
+
+  switch (provider) {
+    case "gemini": {
+      const apiKey = env.GEMINI_API_KEY || env.GOOGLE_GEMINI_API_KEY;
+      if (!apiKey || budgetExhausted(env)) return null;
+      return withTokenBudget(createGeminiProvider(apiKey, env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL), env);
+    }
+    case "openai": {
+      if (!env.OPENAI_MODEL || budgetExhausted(env)) return null;
+      return withTokenBudget(createOpenAiProvider(env.OPENAI_MODEL, env.OPENAI_BASE_URL || undefined, env.OPENAI_API_KEY), env);
+    }
+    case "stub":
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
@@ -0,0 +1,33 @@
+import type { LlmProvider } from "./types";
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API
+ * (OpenAI itself, vLLM, Ollama, LM Studio, ...). Self-hosted servers
+ * usually need no API key.
+ */
+export function createOpenAiProvider(model: string, baseUrl = DEFAULT_OPENAI_BASE_URL, apiKey?: string): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    model,
+    async generate({ prompt }) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+      const resp = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ model, messages: [{ role: "user", content: prompt }] }),
+      });
+
+      if (!resp.ok) {
+        throw new Error(`OpenAI-compatible API Error: ${await resp.text()}`);
+      }
+
+      const data = await resp.json();
+      return data?.choices?.[0]?.message?.content || "";
+    },
+  };
+}
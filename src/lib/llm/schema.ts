@@ -0,0 +1,104 @@
+/**
+ * Minimal validators for the JSON shapes the summary prompts ask for.
+ *
+ * A schema returns `value` whenever the answer is structurally usable and
+ * lists everything the model should fix in `problems`. Structural problems
+ * leave `value` unset; rule violations (sentence or word counts) keep it so
+ * the best attempt can still be served once retries run out.
+ */
+export interface SchemaResult<T> {
+  value?: T;
+  problems: string[];
+}
+
+export type Schema<T> = (input: unknown) => SchemaResult<T>;
+
+export interface SummaryRules {
+  sentences?: [number, number];
+  words?: [number, number];
+}
+
+// Counts Latin terminators and the Devanagari danda used in Hindi text.
+export function countSentences(text: string): number {
+  return text.split(/[.!?।]+(?=\s|$)/).filter((part) => part.trim().length > 0).length;
+}
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function checkRules(text: string, rules: SummaryRules, label: string): string[] {
+  const problems: string[] = [];
+  if (rules.sentences) {
+    const [min, max] = rules.sentences;
+    const n = countSentences(text);
+    if (n < min || n > max) problems.push(`${label} has ${n} sentences; it must have ${min}-${max}.`);
+  }
+  if (rules.words) {
+    const [min, max] = rules.words;
+    const n = countWords(text);
+    if (n < min || n > max) problems.push(`${label} has ${n} words; it must have ${min}-${max}.`);
+  }
+  return problems;
+}
+
+const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === "object" && input !== null && !Array.isArray(input);
+
+/** `{ "summary": "..." }` as returned by the flower and pest prompts. */
+export function summaryObject(rules: SummaryRules): Schema<{ summary: string }> {
+  return (input) => {
+    if (!isPlainObject(input)) {
+      return { problems: ["The response must be a JSON object."] };
+    }
+    const summary = input.summary;
+    if (typeof summary !== "string" || !summary.trim()) {
+      return { problems: ['The JSON object must have a non-empty string key "summary".'] };
+    }
+    const problems = Object.keys(input)
+      .filter((key) => key !== "summary")
+      .map((key) => `Unexpected key "${key}"; only "summary" is allowed.`);
+    problems.push(...checkRules(summary, rules, "The summary"));
+    return { value: { summary: summary.trim() }, problems };
+  };
+}
+
+/**
+ * An object keyed by exactly `keys` with a summary string per key, as returned
+ * by the biome prompt. Keys that were not asked for are reported and dropped.
+ */
+export function summaryMap(keys: string[], rules: SummaryRules): Schema<Record<string, string>> {
+  return (input) => {
+    if (!isPlainObject(input)) {
+      return { problems: ["The response must be a JSON object."] };
+    }
+
+    const allowed = new Set(keys);
+    const value: Record<string, string> = {};
+    const problems: string[] = [];
+    let structural = false;
+
+    for (const [key, summary] of Object.entries(input)) {
+      if (!allowed.has(key)) {
+        problems.push(`Unexpected key "${key}"; only ${keys.map((k) => `"${k}"`).join(", ")} are allowed.`);
+        continue;
+      }
+      if (typeof summary !== "string" || !summary.trim()) {
+        problems.push(`The value for "${key}" must be a non-empty summary string.`);
+        structural = true;
+        continue;
+      }
+      value[key] = summary.trim();
+      problems.push(...checkRules(summary, rules, `The summary for "${key}"`));
+    }
+
+    for (const key of keys) {
+      if (!(key in input)) {
+        problems.push(`Missing key "${key}".`);
+        structural = true;
+      }
+    }
+
+    return structural ? { problems } : { value, problems };
+  };
+}
@@ -0,0 +1,92 @@
+import { TokenBudgetError } from "./budget";
+import type { LlmProvider, LlmRequest } from "./types";
+import type { Schema } from "./schema";
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, readonly problems: string[], readonly raw: string) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+interface StructuredRequest<T> extends LlmRequest {
+  schema: Schema<T>;
+  /** Total model calls, including the first one. */
+  maxAttempts?: number;
+}
+
+/**
+ * Pulls a JSON value out of a model answer. Besides a ```json fence this
+ * repairs the usual chatty wrappers ("Here is the JSON: {...}. Hope it helps")
+ * by falling back to the outermost {...} span.
+ */
+export function extractJson(text: string): unknown {
+  const cleanedText = text.replace(/^\s*```(?:json)?\s*|```\s*$/g, "").trim();
+  try {
+    return JSON.parse(cleanedText);
+  } catch (e) {
+    const start = cleanedText.indexOf("{");
+    const end = cleanedText.lastIndexOf("}");
+    if (start === -1 || end <= start) throw e;
+    return JSON.parse(cleanedText.slice(start, end + 1));
+  }
+}
+
+function repairPrompt(prompt: string, raw: string, problems: string[]) {
+  return `${prompt}
+
+Your previous response was rejected for these reasons:
+${problems.map((p) => `- ${p}`).join("\n")}
+
+Previous response:
+${raw}
+
+Return a corrected response that fixes every problem above. Respond with the JSON object only.`;
+}
+
+/**
+ * Asks the model for JSON matching `schema`, re-prompting with the list of
+ * problems until it complies or `maxAttempts` is used up. If the final answer
+ * is structurally valid but still breaks a length rule it is returned anyway;
+ * otherwise a StructuredOutputError is thrown. Running out of the daily
+ * token budget mid-way also ends the retries, keeping any valid answer.
+ */
+export async function generateStructured<T>(llm: LlmProvider, request: StructuredRequest<T>): Promise<T> {
+  const { schema, maxAttempts = 3, ...base } = request;
+  let prompt = base.prompt;
+  // The last structurally valid answer, kept with the problems found in it
+  let best: { value: T; problems: string[] } | undefined;
+  let problems: string[] = [];
+  let raw = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      raw = await llm.generate({ ...base, prompt });
+    } catch (e) {
+      if (e instanceof TokenBudgetError && attempt > 1) break;
+      throw e;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = extractJson(raw);
+    } catch {
+      problems = ["The response was not valid JSON."];
+      prompt = repairPrompt(base.prompt, raw, problems);
+      continue;
+    }
+
+    const result = schema(parsed);
+    problems = result.problems;
+    if (result.value !== undefined) best = { value: result.value, problems };
+    if (result.value !== undefined && problems.length === 0) return result.value;
+
+    prompt = repairPrompt(base.prompt, raw, problems);
+  }
+
+  if (best) {
+    console.warn(`Accepting ${llm.model} output with unresolved problems:`, best.problems);
+    return best.value;
+  }
+  throw new StructuredOutputError("AI returned a malformed response.", problems, raw);
+}
@@ -0,0 +1,16 @@
+import type { LlmProvider } from "./types";
+
+export const STUB_MODEL = "stub/offline";
+
+/**
+ * Deterministic provider for tests and offline development. It never touches
+ * the network and answers with the request's `offline` text.
+ */
+export function createStubProvider(): LlmProvider {
+  return {
+    model: STUB_MODEL,
+    async generate({ offline }) {
+      return offline ?? "{}";
+    },
+  };
+}
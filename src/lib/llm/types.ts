@@ -0,0 +1,11 @@
+export interface LlmRequest {
+  prompt: string;
+  /** Canned answer returned by the offline stub instead of calling a model. */
+  offline?: string;
+}
+
+export interface LlmProvider {
+  /** Identifier stored as `modelUsed` next to generated summaries. */
+  readonly model: string;
+  generate(request: LlmRequest): Promise<string>;
+}
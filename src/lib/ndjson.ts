@@ -0,0 +1,93 @@
+/**
+ * Newline-delimited JSON streaming, used by the summary routes to emit each
+ * summary as soon as it is ready. The reader half runs in the browser.
+ */
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
+
+export function ndjsonResponse(lines: AsyncIterable<unknown>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const line of lines) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+        }
+      } catch (e: any) {
+        controller.enqueue(encoder.encode(`${JSON.stringify({ error: e?.message || "Unknown server error" })}\n`));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": NDJSON_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+      // Stop nginx-style proxies from buffering the whole response.
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+export async function readNdjson<T>(res: Response, onLine: (line: T) => void) {
+  if (!res.body) throw new Error("Response has no body to stream");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) onLine(JSON.parse(line));
+    }
+    if (done) break;
+  }
+  if (buffer.trim()) onLine(JSON.parse(buffer));
+}
+
+export type Settled<T, R> = { item: T; index: number } & ({ value: R; error?: undefined } | { value?: undefined; error: unknown });
+
+/**
+ * Runs `fn` over every item, at most `concurrency` at a time, and yields
+ * results in completion order.
+ */
+export async function* settleAsCompleted<T, R>(
+  items: T[],
+  fn: (item: T, index: number) => Promise<R>,
+  concurrency = Infinity
+): AsyncGenerator<Settled<T, R>> {
+  let running = 0;
+  const waiting: Array<() => void> = [];
+  const limited = async (item: T, index: number) => {
+    if (running >= concurrency) await new Promise<void>((resolve) => waiting.push(resolve));
+    running++;
+    try {
+      return await fn(item, index);
+    } finally {
+      running--;
+      waiting.shift()?.();
+    }
+  };
+
+  const pending = new Map<number, Promise<Settled<T, R>>>();
+  items.forEach((item, index) => {
+    pending.set(
+      index,
+      limited(item, index).then(
+        (value) => ({ item, index, value }),
+        (error) => ({ item, index, error })
+      )
+    );
+  });
+
+  while (pending.size > 0) {
+    const settled = await Promise.race(pending.values());
+    pending.delete(settled.index);
+    yield settled;
+  }
+}
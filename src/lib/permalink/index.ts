@@ -0,0 +1,87 @@
+import { GEOMETRY_LIMITS, haversineM, simplifyToLimit } from "@/lib/geometry";
+import { MAX_YEAR, MIN_YEAR } from "@/lib/analysis/types";
+import { boundsOf, unwrapPath, type Point } from "@/lib/sampling";
+import { decodePolyline, encodePolyline } from "./polyline";
+
+export { decodePolyline, encodePolyline } from "./polyline";
+
+/**
+ * The /map2 state that fits in a link: view, analysis month/year and every
+ * area's outline. Circles and rectangles travel as polygons. Query keys:
+ *
+ *   c=lat,lng  z=zoom  m=month  y=year
+ *   a=<path>[,<path>...]  one per area, paths as encoded polylines
+ *   n=<name>              one per area, same order as `a`
+ *   e=0|1                 one per area, whether its outline was editable
+ *   s=<index>             selected area
+ *   run=1                 analyse every area once restored
+ */
+export interface MapPermalink {
+  center?: { lat: number; lng: number };
+  zoom?: number;
+  month?: number;
+  year?: number;
+  /** `editable` is left out for links made before it was recorded. */
+  areas: { name: string; paths: Point[][]; editable?: boolean }[];
+  selected?: number;
+  autoRun?: boolean;
+}
+
+/** Outlines above the analysis vertex limit are simplified to it; the analysis would do the same. */
+function linkPaths(paths: Point[][]): Point[][] {
+  const vertices = paths.reduce((n, path) => n + path.length, 0);
+  if (vertices <= GEOMETRY_LIMITS.maxVertices) return paths;
+  const polygons = paths.map((path) => [unwrapPath(path)]);
+  const { latMin, latMax, lngMin, lngMax } = boundsOf(polygons.flat(2));
+  const simplified = simplifyToLimit(polygons, GEOMETRY_LIMITS.maxVertices, haversineM([latMin, lngMin], [latMax, lngMax]));
+  return simplified ? simplified.polygons.map(([outer]) => outer) : paths;
+}
+
+export function encodePermalink(state: MapPermalink): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.center) params.set("c", `${state.center.lat.toFixed(5)},${state.center.lng.toFixed(5)}`);
+  if (state.zoom !== undefined) params.set("z", String(Math.round(state.zoom)));
+  if (state.month !== undefined) params.set("m", String(state.month));
+  if (state.year !== undefined) params.set("y", String(state.year));
+  for (const area of state.areas) {
+    params.append("a", linkPaths(area.paths).map(encodePolyline).join(","));
+    params.append("n", area.name);
+    params.append("e", area.editable === false ? "0" : "1");
+  }
+  if (state.selected !== undefined && state.selected >= 0) params.set("s", String(state.selected));
+  if (state.autoRun) params.set("run", "1");
+  return params;
+}
+
+const intParam = (params: URLSearchParams, key: string, min: number, max: number) => {
+  const value = Number(params.get(key));
+  return params.has(key) && Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+};
+
+/**
+ * Reads what it can from a query string and drops the rest: a malformed
+ * area is skipped rather than failing the whole link.
+ */
+export function decodePermalink(search: string | URLSearchParams): MapPermalink {
+  const params = typeof search === "string" ? new URLSearchParams(search) : search;
+  const state: MapPermalink = { areas: [] };
+
+  const [lat, lng] = (params.get("c") ?? "").split(",").map(Number);
+  if (params.has("c") && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) state.center = { lat, lng };
+  state.zoom = intParam(params, "z", 1, 21);
+  state.month = intParam(params, "m", 1, 12);
+  state.year = intParam(params, "y", MIN_YEAR, MAX_YEAR);
+
+  const names = params.getAll("n");
+  const editable = params.getAll("e");
+  params.getAll("a").forEach((value, i) => {
+    const paths = value.split(",").map(decodePolyline);
+    if (paths.some((path) => path === null || path.length < 3)) return;
+    const area: MapPermalink["areas"][number] = { name: names[i]?.trim() || `Area ${i + 1}`, paths: paths as Point[][] };
+    if (editable[i] === "0" || editable[i] === "1") area.editable = editable[i] === "1";
+    state.areas.push(area);
+  });
+  state.selected = intParam(params, "s", 0, state.areas.length - 1);
+  state.autoRun = params.get("run") === "1" && state.areas.length > 0;
+  return state;
+}
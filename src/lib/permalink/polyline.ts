@@ -0,0 +1,57 @@
+import type { Point } from "@/lib/sampling";
+
+/**
+ * Google's encoded polyline format: deltas of `[lat, lng]` at 1e-5 degrees
+ * (about a metre), zigzag-encoded in base-64 chunks of printable ASCII.
+ * Roughly 4-6 characters per vertex instead of ~20 for plain decimals.
+ */
+
+const PRECISION = 1e5;
+
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let out = "";
+  while (v >= 0x20) {
+    out += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return out + String.fromCharCode(v + 63);
+}
+
+export function encodePolyline(points: Point[]): string {
+  let lastLat = 0, lastLng = 0;
+  return points
+    .map(([lat, lng]) => {
+      const y = Math.round(lat * PRECISION), x = Math.round(lng * PRECISION);
+      const chunk = encodeValue(y - lastLat) + encodeValue(x - lastLng);
+      [lastLat, lastLng] = [y, x];
+      return chunk;
+    })
+    .join("");
+}
+
+/** Returns null when `text` is not a well-formed polyline. */
+export function decodePolyline(text: string): Point[] | null {
+  const points: Point[] = [];
+  let index = 0, lat = 0, lng = 0;
+  const next = (): number | null => {
+    let result = 0, shift = 0, byte: number;
+    do {
+      if (index >= text.length || shift > 30) return null;
+      byte = text.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 63) return null;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+  while (index < text.length) {
+    const dLat = next();
+    const dLng = dLat === null ? null : next();
+    if (dLat === null || dLng === null) return null;
+    lat += dLat;
+    lng += dLng;
+    points.push([lat / PRECISION, lng / PRECISION]);
+  }
+  return points;
+}
@@ -0,0 +1,107 @@
+/**
+ * Per-client request limits for /api/*, enforced by src/proxy.ts. Counters
+ * live in process memory, so each server instance limits independently.
+ */
+
+export interface RateLimitRule {
+  prefix: string;
+  /** Requests allowed per window per client. */
+  limit: number;
+  windowMs: number;
+  /** Largest accepted request body, judged by Content-Length. */
+  maxBodyBytes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const KB = 1024;
+
+// First match wins, so keep more specific prefixes first.
+export const RATE_LIMIT_RULES: RateLimitRule[] = [
+  // A whole-year run is up to twelve backend analyses, a scenario comparison up to five.
+  { prefix: "/api/analyze-by-biome/year", limit: 2, windowMs: MINUTE_MS, maxBodyBytes: 256 * KB },
+  { prefix: "/api/analyze-by-biome/scenarios", limit: 3, windowMs: MINUTE_MS, maxBodyBytes: 256 * KB },
+  { prefix: "/api/analyze-by-biome", limit: 10, windowMs: MINUTE_MS, maxBodyBytes: 256 * KB },
+  { prefix: "/api/biome-summary", limit: 10, windowMs: MINUTE_MS, maxBodyBytes: 256 * KB },
+  { prefix: "/api/flower-summary", limit: 30, windowMs: MINUTE_MS, maxBodyBytes: 64 * KB },
+  { prefix: "/api/pest-summary", limit: 30, windowMs: MINUTE_MS, maxBodyBytes: 64 * KB },
+  { prefix: "/api/random-points", limit: 20, windowMs: MINUTE_MS, maxBodyBytes: 512 * KB },
+  { prefix: "/api/geometry", limit: 30, windowMs: MINUTE_MS, maxBodyBytes: 512 * KB },
+  // A map view pulls a dozen or more overlay tiles at once, and each pan more.
+  { prefix: "/api/koppen", limit: 600, windowMs: MINUTE_MS, maxBodyBytes: 1 * KB },
+  { prefix: "/api/admin", limit: 30, windowMs: MINUTE_MS, maxBodyBytes: 64 * KB },
+  { prefix: "/api", limit: 60, windowMs: MINUTE_MS, maxBodyBytes: 64 * KB },
+];
+
+/** Clients presenting one of the API_KEYS get this many times the limit. */
+export const API_KEY_MULTIPLIER = 10;
+
+export function ruleFor(pathname: string): RateLimitRule {
+  return RATE_LIMIT_RULES.find((rule) => pathname.startsWith(rule.prefix)) ?? RATE_LIMIT_RULES[RATE_LIMIT_RULES.length - 1];
+}
+
+/**
+ * The client IP as seen by the proxies we trust. Forwarding headers are only
+ * read when TRUSTED_PROXY_HOPS (default 0) says how many proxies append to
+ * X-Forwarded-For, and then only the entry the outermost of them added
+ * (anything further left was sent by the client and can be forged), or the
+ * `x-real-ip` they set. The proxy sees no socket address, so without trusted
+ * hops every anonymous caller shares the "unknown" bucket.
+ */
+function clientIp(headers: Headers, env: NodeJS.ProcessEnv) {
+  const hops = Math.floor(Number(env.TRUSTED_PROXY_HOPS) || 0);
+  if (hops <= 0) return "unknown";
+  const forwarded = (headers.get("x-forwarded-for") || "").split(",").map((ip) => ip.trim()).filter(Boolean);
+  if (forwarded.length) return forwarded[Math.max(0, forwarded.length - hops)];
+  return headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * Identifies the caller by `x-api-key` when it is listed in API_KEYS
+ * (comma separated), otherwise by the client IP.
+ */
+export function identifyClient(headers: Headers, env: NodeJS.ProcessEnv = process.env) {
+  const apiKey = headers.get("x-api-key")?.trim();
+  const keys = (env.API_KEYS || "").split(",").map((k) => k.trim()).filter(Boolean);
+  if (apiKey && keys.includes(apiKey)) {
+    return { id: `key:${apiKey}`, trusted: true };
+  }
+  return { id: `ip:${clientIp(headers, env)}`, trusted: false };
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the current window resets. */
+  resetMs: number;
+}
+
+type Window = { count: number; resetAt: number };
+
+const windows: Map<string, Window> = ((globalThis as any).__rateLimitWindows ??= new Map());
+const MAX_TRACKED = 10000;
+
+function pruneExpired(now: number) {
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key);
+  }
+}
+
+/** Counts one request against `key` in a fixed window. */
+export function consume(key: string, rule: RateLimitRule, multiplier = 1, now = Date.now()): RateLimitResult {
+  const limit = rule.limit * multiplier;
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    if (windows.size >= MAX_TRACKED) pruneExpired(now);
+    window = { count: 0, resetAt: now + rule.windowMs };
+    windows.set(key, window);
+  }
+
+  window.count++;
+  return {
+    allowed: window.count <= limit,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetMs: window.resetAt - now,
+  };
+}
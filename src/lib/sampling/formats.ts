@@ -0,0 +1,25 @@
+import type { Point } from "./geo";
+
+/** `json` is the route's own `{ points, seed, meta }` shape with `[lat, lng]` pairs. */
+export type OutputFormat = "json" | "geojson" | "csv" | "wkt";
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "geojson", "csv", "wkt"];
+
+export function pointsToCsv(points: Point[]): string {
+  return ["lat,lng", ...points.map(([lat, lng]) => `${lat},${lng}`)].join("\n") + "\n";
+}
+
+/** A WKT MULTIPOINT, which like GeoJSON puts x (lng) before y (lat). */
+export function pointsToWkt(points: Point[]): string {
+  if (points.length === 0) return "MULTIPOINT EMPTY";
+  return `MULTIPOINT (${points.map(([lat, lng]) => `(${lng} ${lat})`).join(", ")})`;
+}
+
+/** Body and content type for the text formats. */
+export function serializePoints(points: Point[], format: "csv" | "wkt") {
+  switch (format) {
+    case "csv":
+      return { body: pointsToCsv(points), contentType: "text/csv; charset=utf-8" };
+    case "wkt":
+      return { body: pointsToWkt(points), contentType: "text/plain; charset=utf-8" };
+  }
+}
@@ -0,0 +1,113 @@
+/** `[lat, lng]` in degrees, the order every sampling route accepts and returns. */
+export type Point = [number, number];
+
+export const EARTH_RADIUS_M = 6371000;
+
+export const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+export const deg2rad = (d: number) => (d * Math.PI) / 180;
+export const rad2deg = (r: number) => (r * 180) / Math.PI;
+
+/** Wraps any longitude into [-180, 180). */
+export function normalizeLng(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Shifts longitudes by multiples of 360 so no edge spans more than 180°,
+ * turning a ring that crosses the antimeridian (170, -170, ...) into a
+ * continuous one (170, 190, ...) that planar math can work on. Returns null
+ * when the ring encircles a pole, where no such unwrapping exists.
+ */
+export function unwrapRing(ring: Point[]): Point[] | null {
+  const out = unwrapPath(ring);
+
+  // Closing the ring must not need another wrap, or it winds around a pole.
+  const closing = out[0][1] - out[out.length - 1][1];
+  return Math.abs(closing) > 180 ? null : out;
+}
+
+/** unwrapRing for an open path (a polyline), which has no closing edge to check. */
+export function unwrapPath(path: Point[]): Point[] {
+  const out: Point[] = [];
+  let offset = 0;
+  path.forEach(([lat, lng], i) => {
+    if (i > 0) {
+      const step = lng - path[i - 1][1];
+      if (step > 180) offset -= 360;
+      else if (step < -180) offset += 360;
+    }
+    out.push([lat, lng + offset]);
+  });
+  return out;
+}
+
+/** Ray casting in plain lat/lng space; unwrap rings crossing ±180° first. */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  const [x, y] = [point[1], point[0]]; // treat lng as x, lat as y
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i][1], yi = polygon[i][0];
+    const xj = polygon[j][1], yj = polygon[j][0];
+    const intersect = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (intersect) inside = !inside;
+  }
+  return inside;
+}
+
+/** Even-odd test over an outer ring and its holes. */
+export function pointInRings(point: Point, rings: Point[][]): boolean {
+  return rings.reduce((inside, ring) => (pointInPolygon(point, ring) ? !inside : inside), false);
+}
+
+export function boundsOf(ring: Point[]) {
+  let latMin = Infinity, latMax = -Infinity, lngMin = Infinity, lngMax = -Infinity;
+  ring.forEach(([lat, lng]) => {
+    latMin = Math.min(latMin, lat);
+    latMax = Math.max(latMax, lat);
+    lngMin = Math.min(lngMin, lng);
+    lngMax = Math.max(lngMax, lng);
+  });
+  return { latMin, latMax, lngMin, lngMax };
+}
+
+/** Unit vector on the sphere; chord length between two is a cheap distance proxy. */
+export function toVector([lat, lng]: Point): [number, number, number] {
+  const phi = deg2rad(lat), lambda = deg2rad(lng);
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+}
+
+/** The point `delta` radians away from `center` along `bearing` (radians from north). */
+export function destination(center: Point, bearing: number, delta: number): Point {
+  const lat1 = deg2rad(center[0]);
+  const lon1 = deg2rad(center[1]);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(bearing)
+  );
+  const lon2 =
+    lon1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(delta) * Math.cos(lat1),
+      Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2)
+    );
+  return [rad2deg(lat2), normalizeLng(rad2deg(lon2))];
+}
+
+/** Initial great-circle bearing (radians from north) from `from` towards `to`. */
+export function bearingTo(from: Point, to: Point): number {
+  const lat1 = deg2rad(from[0]), lat2 = deg2rad(to[0]);
+  const dLon = deg2rad(to[1] - from[1]);
+  return Math.atan2(
+    Math.sin(dLon) * Math.cos(lat2),
+    Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon)
+  );
+}
+
+/** Area in m² of a ring (unwrapped, see unwrapRing) with edges straight in lat/lng. */
+export function ringAreaM2(ring: Point[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latJ, lngJ] = ring[j];
+    const [latI, lngI] = ring[i];
+    sum += deg2rad(lngI - lngJ) * (Math.sin(deg2rad(latJ)) + Math.sin(deg2rad(latI)));
+  }
+  return Math.abs((sum * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
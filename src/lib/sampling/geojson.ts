@@ -0,0 +1,98 @@
+import type { Point } from "./geo";
+import { SamplingError } from "./shapes";
+
+/**
+ * GeoJSON (RFC 7946) in and out. GeoJSON positions are `[lng, lat]`; the
+ * samplers work in `[lat, lng]`, so everything is swapped at this boundary.
+ */
+
+type Position = number[];
+
+/** Polygons as `[outer, ...holes]` rings in `[lat, lng]` order. */
+export type PolygonRings = Point[][];
+
+export interface GeoJsonReadOptions {
+  /** Reject positions outside lng -180..180 / lat -90..90 (default true). */
+  checkRange?: boolean;
+}
+
+function toRing(coords: unknown, label: string, { checkRange = true }: GeoJsonReadOptions): Point[] {
+  if (!Array.isArray(coords) || coords.length < 3) {
+    throw new SamplingError(`${label} must be an array of at least 3 positions`);
+  }
+  return coords.map((pos: unknown, i) => {
+    if (!Array.isArray(pos) || pos.length < 2 || !pos.slice(0, 2).every((n) => typeof n === "number" && Number.isFinite(n))) {
+      throw new SamplingError(`${label}[${i}] must be a [lng, lat] position`);
+    }
+    const [lng, lat] = pos as Position;
+    if (checkRange && (Math.abs(lat) > 90 || Math.abs(lng) > 180)) {
+      throw new SamplingError(`${label}[${i}] is outside lng -180..180 / lat -90..90`);
+    }
+    return [lat, lng];
+  });
+}
+
+function toPolygon(coords: unknown, label: string, options: GeoJsonReadOptions): PolygonRings {
+  if (!Array.isArray(coords) || coords.length === 0) {
+    throw new SamplingError(`${label} must have at least an outer ring`);
+  }
+  return coords.map((ring, i) => toRing(ring, `${label}.coordinates[${i}]`, options));
+}
+
+function fromGeometry(geometry: any, label: string, options: GeoJsonReadOptions): PolygonRings[] {
+  switch (geometry?.type) {
+    case "Polygon":
+      return [toPolygon(geometry.coordinates, label, options)];
+    case "MultiPolygon":
+      if (!Array.isArray(geometry.coordinates)) throw new SamplingError(`${label}.coordinates must be an array`);
+      return geometry.coordinates.map((polygon: unknown, i: number) => toPolygon(polygon, `${label}[${i}]`, options));
+    case "GeometryCollection":
+      return (geometry.geometries ?? []).flatMap((g: any, i: number) => fromGeometry(g, `${label}.geometries[${i}]`, options));
+    default:
+      throw new SamplingError(`${label} must be a Polygon or MultiPolygon, got ${geometry?.type ?? "nothing"}`);
+  }
+}
+
+/**
+ * Reads a Polygon, MultiPolygon, Feature or FeatureCollection of those into
+ * a flat list of polygons.
+ */
+export function polygonsFromGeoJson(input: any, options: GeoJsonReadOptions = {}): PolygonRings[] {
+  let polygons: PolygonRings[];
+  switch (input?.type) {
+    case "FeatureCollection":
+      if (!Array.isArray(input.features)) throw new SamplingError("FeatureCollection.features must be an array");
+      polygons = input.features.flatMap((f: any, i: number) => fromGeometry(f?.geometry, `features[${i}].geometry`, options));
+      break;
+    case "Feature":
+      polygons = fromGeometry(input.geometry, "geometry", options);
+      break;
+    default:
+      polygons = fromGeometry(input, "geometry", options);
+  }
+  if (polygons.length === 0) throw new SamplingError("GeoJSON contains no polygons");
+  return polygons;
+}
+
+/** Polygons back to a GeoJSON Polygon or MultiPolygon geometry. */
+export function polygonsToGeoJson(polygons: PolygonRings[]) {
+  const coords = polygons.map((rings) => rings.map((ring) => {
+    const positions = ring.map(([lat, lng]) => [lng, lat]);
+    return [...positions, positions[0]]; // GeoJSON rings repeat the first position
+  }));
+  return coords.length === 1
+    ? { type: "Polygon" as const, coordinates: coords[0] }
+    : { type: "MultiPolygon" as const, coordinates: coords };
+}
+
+/** Sampled points as a FeatureCollection of Point features. */
+export function pointsToGeoJson(points: Point[]) {
+  return {
+    type: "FeatureCollection" as const,
+    features: points.map(([lat, lng], i) => ({
+      type: "Feature" as const,
+      geometry: { type: "Point" as const, coordinates: [lng, lat] },
+      properties: { index: i },
+    })),
+  };
+}
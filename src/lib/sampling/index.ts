@@ -0,0 +1,43 @@
+export { OUTPUT_FORMATS, pointsToCsv, pointsToWkt, serializePoints, type OutputFormat } from "./formats";
+export {
+  boundsOf,
+  clamp,
+  bearingTo,
+  deg2rad,
+  destination,
+  EARTH_RADIUS_M,
+  normalizeLng,
+  pointInPolygon,
+  pointInRings,
+  rad2deg,
+  ringAreaM2,
+  toVector,
+  unwrapPath,
+  unwrapRing,
+  type Point,
+} from "./geo";
+export { pointsToGeoJson, polygonsFromGeoJson, polygonsToGeoJson, type GeoJsonReadOptions, type PolygonRings } from "./geojson";
+export { corridorRing, ellipseRing, MAX_CORRIDOR_VERTICES } from "./outlines";
+export { createRng, randomSeed, type Rng } from "./random";
+export {
+  circleDomain,
+  ellipseDomain,
+  multiPolygonDomain,
+  polygonDomain,
+  randomPointsInCircle,
+  randomPointsInEllipse,
+  randomPointsInPolygon,
+  randomPointsInPolygons,
+  randomPointsInRectangle,
+  rectangleDomain,
+  sampleDomain,
+  SAMPLING_MODES,
+  SamplingError,
+  type Domain,
+  type SampleMeta,
+  type SampleOptions,
+  type SampleResult,
+  type SamplingMode,
+} from "./shapes";
+export { SAMPLING_STRATEGIES, samplePoints, type SamplingStrategy } from "./strategies";
+export { selfIntersects, signedArea, triangulate } from "./triangulate";
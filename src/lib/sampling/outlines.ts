@@ -0,0 +1,201 @@
+import { bearingTo, deg2rad, destination, EARTH_RADIUS_M, normalizeLng, unwrapPath, type Point } from "./geo";
+import { SamplingError } from "./shapes";
+import { selfIntersects, type Vec } from "./triangulate";
+
+/**
+ * Outlines for the shapes the map draws but Google Maps has no overlay for.
+ * Both return an open ring of `[lat, lng]` with longitudes in [-180, 180),
+ * ready to send as `shape_points` or sample with polygonDomain. They import
+ * nothing server-only, so the drawing tools use them too.
+ */
+
+/** Degrees of arc between vertices on corridor caps and outer bends. */
+const ARC_STEP_DEG = 10;
+
+/** Corridor lines longer than this (vertices) are refused rather than buffered slowly. */
+export const MAX_CORRIDOR_VERTICES = 1000;
+
+/**
+ * An ellipse around `center`: `semiMajorM` along `bearingDeg` (clockwise from
+ * north) and `semiMinorM` across it, measured as ground distance from the
+ * centre. A circle is the case semiMajorM === semiMinorM.
+ */
+export function ellipseRing(center: Point, semiMajorM: number, semiMinorM: number, bearingDeg = 0, segments = 64): Point[] {
+  const theta = deg2rad(bearingDeg);
+  const ring: Point[] = [];
+  for (let i = 0; i < segments; i++) {
+    const t = (i / segments) * 2 * Math.PI;
+    const along = semiMajorM * Math.cos(t);
+    const across = semiMinorM * Math.sin(t);
+    ring.push(destination(center, theta + Math.atan2(across, along), Math.hypot(along, across) / EARTH_RADIUS_M));
+  }
+  return ring;
+}
+
+/** Shifts `p` by whole turns so its longitude is within 180° of `lng`. */
+const near = ([lat, lng]: Point, ref: number): Point => [lat, lng + 360 * Math.round((ref - lng) / 360)];
+
+/** Points every ARC_STEP_DEG from bearing `from` to `to` (radians, either direction), both ends included. */
+function arc(center: Point, from: number, to: number, delta: number): Point[] {
+  const steps = Math.max(1, Math.ceil(Math.abs(to - from) / deg2rad(ARC_STEP_DEG)));
+  const out: Point[] = [];
+  for (let i = 0; i <= steps; i++) out.push(near(destination(center, from + ((to - from) * i) / steps, delta), center[1]));
+  return out;
+}
+
+/** Signed turn from bearing `a` to bearing `b`, in (-π, π]; positive turns right. */
+function turn(a: number, b: number) {
+  const d = (b - a) % (2 * Math.PI);
+  return d > Math.PI ? d - 2 * Math.PI : d <= -Math.PI ? d + 2 * Math.PI : d;
+}
+
+const toVec = ([lat, lng]: Point): Vec => [lng, lat];
+
+function crossing(a: Point, b: Point, c: Point, d: Point): Point | null {
+  const [ax, ay] = toVec(a), [bx, by] = toVec(b), [cx, cy] = toVec(c), [dx, dy] = toVec(d);
+  const denom = (bx - ax) * (dy - cy) - (by - ay) * (dx - cx);
+  if (denom === 0) return null;
+  const s = ((cx - ax) * (dy - cy) - (cy - ay) * (dx - cx)) / denom;
+  const t = ((cx - ax) * (by - ay) - (cy - ay) * (bx - ax)) / denom;
+  if (s < 0 || s > 1 || t < 0 || t > 1) return null;
+  return [ay + s * (by - ay), ax + s * (bx - ax)];
+}
+
+/**
+ * The outer boundary of a closed curve that may cross itself: every crossing
+ * becomes a junction, and the walk starts at the westernmost vertex and
+ * always takes the sharpest right turn, keeping the outside on its right.
+ * Loops inside (from offsetting the inside of bends) and enclosed gaps drop out.
+ */
+function outerBoundary(ring: Point[]): Point[] {
+  const n = ring.length;
+  const boxes = ring.map((a, i) => {
+    const b = ring[(i + 1) % n];
+    return [Math.min(a[1], b[1]), Math.max(a[1], b[1]), Math.min(a[0], b[0]), Math.max(a[0], b[0])];
+  });
+
+  // Points along each edge as [distance from its start, point], crossings included.
+  const stops: [number, Point][][] = ring.map((a, i) => [[0, a], [1, ring[(i + 1) % n]]]);
+  // Sweep west to east so only edges overlapping in longitude are compared.
+  const order = boxes.map((_, i) => i).sort((x, y) => boxes[x][0] - boxes[y][0]);
+  for (let oi = 0; oi < n; oi++) {
+    for (let oj = oi + 1; oj < n && boxes[order[oj]][0] <= boxes[order[oi]][1]; oj++) {
+      const i = Math.min(order[oi], order[oj]), j = Math.max(order[oi], order[oj]);
+      if (j - i < 2 || (i === 0 && j === n - 1)) continue;
+      const [, , s1, n1] = boxes[i], [, , s2, n2] = boxes[j];
+      if (s1 > n2 || s2 > n1) continue;
+      const a = ring[i], b = ring[(i + 1) % n];
+      const at = crossing(a, b, ring[j], ring[(j + 1) % n]);
+      if (!at) continue;
+      const along = (p: Point, q: Point) => Math.hypot(at[0] - p[0], at[1] - p[1]) / (Math.hypot(q[0] - p[0], q[1] - p[1]) || 1);
+      stops[i].push([along(a, b), at]);
+      stops[j].push([along(ring[j], ring[(j + 1) % n]), at]);
+    }
+  }
+
+  // Junctions are matched by position, so a crossing at a vertex joins up with it.
+  const key = ([lat, lng]: Point) => `${lat.toFixed(10)},${lng.toFixed(10)}`;
+  const nodes = new Map<string, { at: Point; next: Set<string> }>();
+  const node = (p: Point) => {
+    const k = key(p);
+    if (!nodes.has(k)) nodes.set(k, { at: p, next: new Set() });
+    return k;
+  };
+  for (const edge of stops) {
+    edge.sort((x, y) => x[0] - y[0]);
+    for (let i = 1; i < edge.length; i++) {
+      const from = node(edge[i - 1][1]), to = node(edge[i][1]);
+      if (from === to) continue;
+      nodes.get(from)!.next.add(to);
+      nodes.get(to)!.next.add(from);
+    }
+  }
+
+  let start = "";
+  for (const [k, { at }] of nodes) {
+    const best = nodes.get(start)?.at;
+    if (!best || at[1] < best[1] || (at[1] === best[1] && at[0] < best[0])) start = k;
+  }
+
+  const angle = (from: Point, to: Point) => Math.atan2(to[0] - from[0], to[1] - from[1]);
+  const out: Point[] = [];
+  let cur = start, back = Math.PI; // pretend we arrived from the west
+  let first = "";
+  for (let steps = 0; steps <= 2 * nodes.size; steps++) {
+    const here = nodes.get(cur)!;
+    let next = "", best = Infinity;
+    for (const k of here.next) {
+      let ccw = (angle(here.at, nodes.get(k)!.at) - back) % (2 * Math.PI);
+      if (ccw <= 0) ccw += 2 * Math.PI;
+      if (ccw < best) {
+        best = ccw;
+        next = k;
+      }
+    }
+    if (cur === start) {
+      if (first === next) break;
+      first ||= next;
+    }
+    out.push(here.at);
+    back = angle(nodes.get(next)!.at, here.at);
+    cur = next;
+  }
+  return out;
+}
+
+/**
+ * The outline of everything within `bufferM` metres of a polyline: each side
+ * is offset along the great-circle normal, rounded on the outside of bends
+ * and at both ends. Where the corridor overlaps itself the outline follows
+ * the outside of the overlap, and any gap it encloses is filled in.
+ */
+export function corridorRing(line: Point[], bufferM: number): Point[] {
+  const path = unwrapPath(line).filter((p, i, all) => i === 0 || p[0] !== all[i - 1][0] || p[1] !== all[i - 1][1]);
+  if (path.length < 2) throw new SamplingError("Corridor line needs at least 2 distinct vertices");
+  if (path.length > MAX_CORRIDOR_VERTICES) throw new SamplingError(`Corridor line has more than ${MAX_CORRIDOR_VERTICES} vertices`);
+  if (!(bufferM > 0)) throw new SamplingError("Corridor buffer must be a positive number of meters");
+  const delta = bufferM / EARTH_RADIUS_M;
+  if (delta >= Math.PI / 4) throw new SamplingError("Corridor buffer is too wide to outline on the sphere");
+
+  // Bearing of each segment where it leaves its first vertex and where it reaches its second.
+  const segments = path.slice(1).map((b, i) => {
+    const a = path[i];
+    return { start: bearingTo(a, b), end: bearingTo(b, a) + Math.PI };
+  });
+
+  // Left runs forward along the line, right is built forward and reversed below.
+  const left: Point[] = [];
+  const right: Point[] = [];
+  path.forEach((p, i) => {
+    const incoming = i > 0 ? segments[i - 1].end : segments[0].start;
+    const outgoing = i < segments.length ? segments[i].start : incoming;
+    const bend = turn(incoming, outgoing);
+    // sign -1 offsets to the left of the direction of travel, +1 to the right.
+    const offset = (side: Point[], sign: number, outside: boolean) => {
+      const normal = (sign * Math.PI) / 2;
+      if (outside) {
+        side.push(...arc(p, incoming + normal, incoming + bend + normal, delta));
+      } else {
+        // Both segment ends; outerBoundary() drops the loop they leave on the inside of the bend.
+        const bearings = bend === 0 ? [incoming] : [incoming, outgoing];
+        side.push(...bearings.map((b) => near(destination(p, b + normal, delta), p[1])));
+      }
+    };
+    offset(left, -1, bend > 0);
+    offset(right, 1, bend < 0);
+  });
+
+  const first = path[0], last = path[path.length - 1];
+  const startBearing = segments[0].start, endBearing = segments[segments.length - 1].end;
+  const ring = outerBoundary([
+    ...left,
+    ...arc(last, endBearing - Math.PI / 2, endBearing + Math.PI / 2, delta).slice(1, -1),
+    ...right.reverse(),
+    ...arc(first, startBearing + Math.PI / 2, startBearing + (3 * Math.PI) / 2, delta).slice(1, -1),
+  ]);
+
+  if (selfIntersects(ring.map(toVec))) {
+    throw new SamplingError("Could not outline the corridor; simplify the line or use a smaller buffer");
+  }
+  return ring.map(([lat, lng]): Point => [lat, normalizeLng(lng)]);
+}
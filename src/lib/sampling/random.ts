@@ -0,0 +1,33 @@
+/** Returns uniform numbers in [0, 1), like Math.random. */
+export type Rng = () => number;
+
+// xmur3: spreads any seed string over 32 bits.
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
+
+/**
+ * mulberry32, seeded from a string: the same seed always yields the same
+ * sequence, so a sampling run can be repeated exactly.
+ */
+export function createRng(seed: string): Rng {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh seed for callers that did not pass one, returned so they can reuse it. */
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 0xffffffff).toString(36);
+}
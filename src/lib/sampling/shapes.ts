@@ -0,0 +1,412 @@
+import { boundsOf, deg2rad, destination, EARTH_RADIUS_M, normalizeLng, pointInPolygon, pointInRings, rad2deg, ringAreaM2, unwrapRing, type Point } from "./geo";
+import type { Rng } from "./random";
+import { samplePoints, type SamplingStrategy } from "./strategies";
+import { selfIntersects, signedArea, triangleArea, triangulate, type Triangle, type Vec } from "./triangulate";
+
+/**
+ * `planar` draws latitude uniformly, as the map looks; `equal-area` is uniform
+ * on the sphere, so a box spanning 40-70°N gets proportionally fewer points
+ * near 70° where a degree of longitude covers less ground.
+ */
+export type SamplingMode = "planar" | "equal-area";
+export const SAMPLING_MODES: SamplingMode[] = ["planar", "equal-area"];
+
+export interface SampleOptions {
+  mode?: SamplingMode;
+  strategy?: SamplingStrategy;
+  /** Defaults to Math.random; pass createRng(seed) for repeatable runs. */
+  rng?: Rng;
+  /** Minimum distance between points for the poisson-disk strategy. */
+  spacingMeters?: number;
+}
+
+/** Thrown for shapes the samplers cannot handle; routes answer 400. */
+export class SamplingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SamplingError";
+  }
+}
+
+/**
+ * A shape as seen by the strategies: a map from the unit square onto its
+ * bounding region, such that equal areas of the square are equal areas of
+ * the region in the chosen mode.
+ */
+export interface Domain {
+  /** The point at (u, v), or null when it falls outside the shape. */
+  at(u: number, v: number): Point | null;
+  /** Share of the unit square that lands inside the shape. */
+  fill: number;
+  /** Width over height of the bounding region, in metres. */
+  aspect: number;
+  areaM2: number;
+  /** Problems found in the input that did not stop sampling. */
+  warnings: string[];
+  /**
+   * Row/column layout for the grid strategy, when `at` does not keep the
+   * shape's geometry (triangulated polygons).
+   */
+  grid?: Domain;
+  /** The pieces of a multi-part shape, each gridded on its own. */
+  parts?: Domain[];
+  /**
+   * For shapes bounded by rings: the u values where the row at v crosses an
+   * edge, sorted, so the shape covers [x0, x1), [x2, x3), ...; and the point
+   * at (u, v) without the inside test. Lets the grid strategy trim whole
+   * rows instead of testing every cell. `edges` is what one row costs.
+   */
+  rows?: { crossings(v: number): number[]; point(u: number, v: number): Point; edges: number };
+}
+
+/** What the samplers report next to the points. */
+export interface SampleMeta {
+  requested: number;
+  produced: number;
+  strategy: SamplingStrategy;
+  mode: SamplingMode;
+  areaKm2: number;
+  warnings: string[];
+}
+
+export interface SampleResult {
+  points: Point[];
+  meta: SampleMeta;
+}
+
+/** Maps v in [0, 1] onto [latMin, latMax], area-weighted in equal-area mode. */
+function latitudeAt(v: number, latMin: number, latMax: number, mode: SamplingMode): number {
+  if (mode === "planar") return latMin + v * (latMax - latMin);
+  const sinMin = Math.sin(deg2rad(latMin));
+  const sinMax = Math.sin(deg2rad(latMax));
+  return rad2deg(Math.asin(sinMin + v * (sinMax - sinMin)));
+}
+
+function boxAreaM2(latMin: number, latMax: number, lngSpan: number) {
+  return EARTH_RADIUS_M * EARTH_RADIUS_M * deg2rad(lngSpan) * (Math.sin(deg2rad(latMax)) - Math.sin(deg2rad(latMin)));
+}
+
+function boxAspect(latMin: number, latMax: number, lngSpan: number) {
+  const height = latMax - latMin;
+  return height > 0 ? (lngSpan * Math.cos(deg2rad((latMin + latMax) / 2))) / height : 1;
+}
+
+/**
+ * Rectangles follow the Google Maps convention: the box runs east from the
+ * south-west corner to the north-east one, so `sw` lng > `ne` lng means it
+ * crosses the antimeridian.
+ */
+export function rectangleDomain(ne: Point, sw: Point, mode: SamplingMode = "planar"): Domain {
+  const latMin = Math.min(ne[0], sw[0]);
+  const latMax = Math.max(ne[0], sw[0]);
+  const west = sw[1];
+  let east = ne[1];
+  if (east < west) east += 360;
+
+  return {
+    at: (u, v) => [latitudeAt(v, latMin, latMax, mode), normalizeLng(west + u * (east - west))],
+    fill: 1,
+    aspect: boxAspect(latMin, latMax, east - west),
+    areaM2: boxAreaM2(latMin, latMax, east - west),
+    warnings: latMin === latMax || west === east ? ["Rectangle has zero area; points lie on a line"] : [],
+  };
+}
+
+/**
+ * Circles and ellipses are laid out on a plane tangent at the centre:
+ * azimuthal equidistant in planar mode (the flat-disc view) and Lambert
+ * equal-area in equal-area mode, which samples a spherical cap exactly. The
+ * ellipse's semi-axes are ground distances from the centre, `semiMajorM`
+ * along `bearingDeg` (clockwise from north).
+ */
+export function ellipseDomain(center: Point, semiMajorM: number, semiMinorM: number, bearingDeg = 0, mode: SamplingMode = "planar"): Domain {
+  // Plane semi-axes, in units of the earth radius.
+  const toPlane = (meters: number) => {
+    const delta = Math.min(Math.PI, meters / EARTH_RADIUS_M);
+    return mode === "planar" ? delta : 2 * Math.sin(delta / 2);
+  };
+  const rhoAlong = toPlane(semiMajorM);
+  const rhoAcross = toPlane(semiMinorM);
+  const theta = deg2rad(bearingDeg);
+  // The Lambert plane keeps areas, so its ellipse area is the area on the sphere (exact for circles).
+  const lambert = (meters: number) => 2 * Math.sin(Math.min(Math.PI, meters / EARTH_RADIUS_M) / 2);
+
+  return {
+    at: (u, v) => {
+      const x = (2 * u - 1) * rhoAcross;
+      const y = (2 * v - 1) * rhoAlong;
+      if ((x / rhoAcross) ** 2 + (y / rhoAlong) ** 2 > 1) return null;
+      const r = Math.hypot(x, y);
+      const delta = mode === "planar" ? r : 2 * Math.asin(r / 2);
+      return destination(center, theta + Math.atan2(x, y), delta);
+    },
+    fill: Math.PI / 4,
+    aspect: rhoAcross / rhoAlong,
+    areaM2: Math.PI * lambert(semiMajorM) * lambert(semiMinorM) * EARTH_RADIUS_M * EARTH_RADIUS_M,
+    warnings: Math.max(semiMajorM, semiMinorM) > Math.PI * EARTH_RADIUS_M ? ["Radius exceeds half the earth's circumference; sampling the whole globe"] : [],
+  };
+}
+
+export function circleDomain(center: Point, radiusMeters: number, mode: SamplingMode = "planar"): Domain {
+  return ellipseDomain(center, radiusMeters, radiusMeters, 0, mode);
+}
+
+/**
+ * Splits `u` across parts weighted by `cumulative` (running totals): returns
+ * the part it lands in and how far into that part, as a fresh [0, 1] value.
+ */
+function pickWeighted(cumulative: number[], u: number): [number, number] {
+  const target = u * cumulative[cumulative.length - 1];
+  let lo = 0, hi = cumulative.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] <= target) lo = mid + 1;
+    else hi = mid;
+  }
+  const start = lo > 0 ? cumulative[lo - 1] : 0;
+  return [lo, Math.min(1, (target - start) / (cumulative[lo] - start || 1))];
+}
+
+const runningTotals = (values: number[]) => {
+  let total = 0;
+  return values.map((v) => (total += v));
+};
+
+/**
+ * Bounding-box rejection over an outer ring and its holes (even-odd rule);
+ * used for the grid layout and for rings that cannot be triangulated.
+ */
+function boxDomain(rings: Point[][], areaM2: number, mode: SamplingMode, warnings: string[]): Domain {
+  const { latMin, latMax, lngMin, lngMax } = boundsOf(rings[0]);
+
+  let fill: number;
+  if (mode === "planar") {
+    const planarArea = rings
+      .map((ring) => Math.abs(signedArea(ring.map(([lat, lng]): Vec => [lng, lat]))))
+      .reduce((outer, hole) => outer - hole);
+    fill = planarArea / ((lngMax - lngMin) * (latMax - latMin) || 1);
+  } else {
+    fill = areaM2 / (boxAreaM2(latMin, latMax, lngMax - lngMin) || 1);
+  }
+
+  const width = lngMax - lngMin || 1;
+  return {
+    at: (u, v) => {
+      const p: Point = [latitudeAt(v, latMin, latMax, mode), lngMin + u * (lngMax - lngMin)];
+      return pointInRings(p, rings) ? [p[0], normalizeLng(p[1])] : null;
+    },
+    fill: Math.min(1, Math.max(fill, 1e-6)),
+    aspect: boxAspect(latMin, latMax, lngMax - lngMin),
+    areaM2,
+    warnings,
+    rows: {
+      // The same crossings pointInRings counts, found once per row.
+      crossings: (v) => {
+        const lat = latitudeAt(v, latMin, latMax, mode);
+        const us: number[] = [];
+        for (const ring of rings) {
+          for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const [yi, xi] = ring[i], [yj, xj] = ring[j];
+            if (yi > lat !== yj > lat) us.push(((xj - xi) * (lat - yi) / (yj - yi) + xi - lngMin) / width);
+          }
+        }
+        return us.sort((a, b) => a - b);
+      },
+      point: (u, v) => [latitudeAt(v, latMin, latMax, mode), normalizeLng(lngMin + u * (lngMax - lngMin))],
+      edges: rings.reduce((n, ring) => n + ring.length, 0),
+    },
+  };
+}
+
+/** Area inside a self-intersecting ring under the even-odd rule, from a 64x64 probe grid. */
+function evenOddAreaM2(rings: Point[][]): number {
+  const { latMin, latMax, lngMin, lngMax } = boundsOf(rings[0]);
+  const probe = boxDomain(rings, 0, "equal-area", []);
+  const n = 64;
+  let inside = 0;
+  for (let r = 0; r < n; r++) {
+    for (let c = 0; c < n; c++) if (probe.at((c + 0.5) / n, (r + 0.5) / n)) inside++;
+  }
+  return (inside / (n * n)) * boxAreaM2(latMin, latMax, lngMax - lngMin);
+}
+
+/** Drops an explicit closing vertex and any repeated vertices, noting the latter. */
+function cleanRing(polygon: Point[], label: string, warnings: string[]): Point[] {
+  const [first, last] = [polygon[0], polygon[polygon.length - 1]];
+  const open = polygon.length > 1 && first[0] === last[0] && first[1] === last[1] ? polygon.slice(0, -1) : polygon;
+
+  const ring = open.filter((p, i) => {
+    const prev = open[(i + open.length - 1) % open.length];
+    return open.length === 1 || p[0] !== prev[0] || p[1] !== prev[1];
+  });
+  const dropped = open.length - ring.length;
+  if (dropped > 0) warnings.push(`Removed ${dropped} repeated vertex${dropped === 1 ? "" : "es"} from ${label}`);
+  return ring;
+}
+
+/** Cleans and unwraps a hole, shifting it by whole turns to sit over the outer ring. */
+function prepareHole(hole: Point[], index: number, outer: Point[], warnings: string[]): Point[] | null {
+  const label = `hole ${index + 1}`;
+  const cleaned = cleanRing(hole, label, warnings);
+  const ring = cleaned.length >= 3 ? unwrapRing(cleaned) : null;
+  if (!ring) {
+    warnings.push(`Ignored ${label}: it is degenerate or encloses a pole`);
+    return null;
+  }
+
+  const outerBounds = boundsOf(outer), holeBounds = boundsOf(ring);
+  const shift = 360 * Math.round(((holeBounds.lngMin + holeBounds.lngMax) - (outerBounds.lngMin + outerBounds.lngMax)) / 720);
+  const aligned = ring.map(([lat, lng]): Point => [lat, lng - shift]);
+  if (!pointInPolygon(aligned[0], outer)) {
+    warnings.push(`Ignored ${label}: it lies outside the outer ring`);
+    return null;
+  }
+  return aligned;
+}
+
+/**
+ * Polygons are triangulated and each triangle drawn in proportion to its
+ * area, so thin or concave shapes always fill the requested count. Points
+ * landing in a hole are rejected. Equal-area mode triangulates on a
+ * cylindrical equal-area plane (x = lng, y = sin lat), where uniform in the
+ * plane is uniform on the sphere. Self-intersecting rings fall back to
+ * bounding-box rejection.
+ */
+export function polygonDomain(polygon: Point[], mode: SamplingMode = "planar", holes: Point[][] = []): Domain {
+  const warnings: string[] = [];
+  const cleaned = cleanRing(polygon, "the outer ring", warnings);
+  if (cleaned.length < 3) throw new SamplingError("Polygon needs at least 3 distinct vertices");
+
+  const ring = unwrapRing(cleaned);
+  if (!ring) throw new SamplingError("Polygons that enclose a pole are not supported");
+  const inner = holes.map((h, i) => prepareHole(h, i, ring, warnings)).filter((h): h is Point[] => h !== null);
+  const rings = [ring, ...inner];
+
+  const toPlane = ([lat, lng]: Point): Vec => [lng, mode === "planar" ? lat : Math.sin(deg2rad(lat))];
+  const fromPlane = ([x, y]: Vec): Point => [mode === "planar" ? y : rad2deg(Math.asin(Math.max(-1, Math.min(1, y)))), x];
+  const plane = ring.map(toPlane);
+
+  const triangles = selfIntersects(plane) ? null : triangulate(plane);
+  if (!triangles) {
+    warnings.push("Polygon edges cross each other; sampled by rejection using the even-odd rule");
+    // Lobes of opposite winding cancel in the signed area, so measure the even-odd area instead.
+    return boxDomain(rings, evenOddAreaM2(rings), mode, warnings);
+  }
+
+  const outerM2 = ringAreaM2(ring);
+  const areaM2 = inner.reduce((area, hole) => area - ringAreaM2(hole), outerM2);
+  if (triangles.length === 0 || outerM2 === 0) throw new SamplingError("Polygon has zero area");
+  if (areaM2 <= 0) throw new SamplingError("Holes cover the whole polygon");
+  const grid = boxDomain(rings, areaM2, mode, warnings);
+
+  const cumulative = runningTotals(triangles.map(triangleArea));
+
+  return {
+    at: (u, v) => {
+      const [i, s0] = pickWeighted(cumulative, u);
+      const [a, b, c]: Triangle = triangles[i];
+      // Fold the unit square onto the triangle.
+      let s = s0, t = v;
+      if (s + t > 1) {
+        s = 1 - s;
+        t = 1 - t;
+      }
+      const p = fromPlane([
+        a[0] + s * (b[0] - a[0]) + t * (c[0] - a[0]),
+        a[1] + s * (b[1] - a[1]) + t * (c[1] - a[1]),
+      ]);
+      if (inner.some((hole) => pointInPolygon(p, hole))) return null;
+      return [p[0], normalizeLng(p[1])];
+    },
+    fill: areaM2 / outerM2,
+    aspect: grid.aspect,
+    areaM2,
+    warnings,
+    grid,
+  };
+}
+
+/**
+ * Several polygons sampled as one shape. `u` picks a part in proportion to
+ * the area its own `at` spans, so after each part's rejections every square
+ * metre is equally likely. The grid strategy lays out each part separately.
+ */
+export function multiPolygonDomain(polygons: Point[][][], mode: SamplingMode = "planar"): Domain {
+  if (polygons.length === 0) throw new SamplingError("No polygons to sample");
+  const parts = polygons.map(([outer, ...holes], i) => {
+    try {
+      return polygonDomain(outer, mode, holes);
+    } catch (e) {
+      if (e instanceof SamplingError && polygons.length > 1) throw new SamplingError(`Polygon ${i + 1}: ${e.message}`);
+      throw e;
+    }
+  });
+  if (parts.length === 1) return parts[0];
+
+  const spans = runningTotals(parts.map((part) => part.areaM2 / part.fill));
+  const areaM2 = parts.reduce((sum, part) => sum + part.areaM2, 0);
+
+  return {
+    at: (u, v) => {
+      const [i, rest] = pickWeighted(spans, u);
+      return parts[i].at(rest, v);
+    },
+    fill: areaM2 / spans[spans.length - 1],
+    aspect: 1,
+    areaM2,
+    warnings: parts.flatMap((part, i) => part.warnings.map((w) => `Polygon ${i + 1}: ${w}`)),
+    parts,
+  };
+}
+
+function underfillWarning(strategy: SamplingStrategy, produced: number): string {
+  switch (strategy) {
+    case "poisson-disk":
+      return `Only ${produced} points fit at the requested spacing`;
+    case "grid":
+      return `The grid places only ${produced} points inside the shape`;
+    default:
+      return `Stopped after ${produced} points; the shape is too thin for rejection sampling`;
+  }
+}
+
+/** Samples `domain` and reports requested vs produced points and any warnings. */
+export function sampleDomain(domain: Domain, count: number, options: SampleOptions = {}): SampleResult {
+  const warnings = [...domain.warnings];
+  const points = samplePoints(domain, count, options, warnings);
+  const strategy = options.strategy ?? "uniform";
+  if (points.length < count) warnings.push(underfillWarning(strategy, points.length));
+
+  return {
+    points,
+    meta: {
+      requested: count,
+      produced: points.length,
+      strategy,
+      mode: options.mode ?? "planar",
+      areaKm2: Math.round(domain.areaM2 / 1e4) / 100,
+      warnings,
+    },
+  };
+}
+
+export function randomPointsInRectangle(ne: Point, sw: Point, count: number, options: SampleOptions = {}): SampleResult {
+  return sampleDomain(rectangleDomain(ne, sw, options.mode), count, options);
+}
+
+export function randomPointsInCircle(center: Point, radiusMeters: number, count: number, options: SampleOptions = {}): SampleResult {
+  return sampleDomain(circleDomain(center, radiusMeters, options.mode), count, options);
+}
+
+export function randomPointsInEllipse(center: Point, semiMajorM: number, semiMinorM: number, bearingDeg: number, count: number, options: SampleOptions = {}): SampleResult {
+  return sampleDomain(ellipseDomain(center, semiMajorM, semiMinorM, bearingDeg, options.mode), count, options);
+}
+
+export function randomPointsInPolygon(polygon: Point[], count: number, options: SampleOptions = {}): SampleResult {
+  return sampleDomain(polygonDomain(polygon, options.mode), count, options);
+}
+
+/** Each polygon is `[outer, ...holes]`. */
+export function randomPointsInPolygons(polygons: Point[][][], count: number, options: SampleOptions = {}): SampleResult {
+  return sampleDomain(multiPolygonDomain(polygons, options.mode), count, options);
+}
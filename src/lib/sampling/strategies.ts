@@ -0,0 +1,181 @@
+import { EARTH_RADIUS_M, toVector, type Point } from "./geo";
+import type { Rng } from "./random";
+import type { Domain, SampleOptions } from "./shapes";
+
+/**
+ * uniform       independent draws
+ * stratified    one jittered draw per cell of a grid, so there are no large gaps
+ * poisson-disk  uniform draws kept only when at least `spacingMeters` from every other point
+ * grid          cell centres of a regular grid; deterministic for a given shape and count
+ */
+export type SamplingStrategy = "uniform" | "stratified" | "poisson-disk" | "grid";
+export const SAMPLING_STRATEGIES: SamplingStrategy[] = ["uniform", "stratified", "poisson-disk", "grid"];
+
+// Rejection budget per requested point for thin shapes, the most grid cells
+// ever laid out, and the most cells visited plus ring edges crossed by one
+// grid request.
+const ATTEMPTS_PER_POINT = 1000;
+const MAX_CELLS = 1_000_000;
+const MAX_GRID_WORK = 20_000_000;
+// Poisson-disk spacing defaults to this share of the mean area per point, which
+// random sequential packing can still reach.
+const DEFAULT_SPACING_FACTOR = 0.7;
+
+function uniform(domain: Domain, count: number, rng: Rng, into: Point[] = []): Point[] {
+  const maxAttempts = count * ATTEMPTS_PER_POINT;
+  for (let attempts = 0; into.length < count && attempts < maxAttempts; attempts++) {
+    const p = domain.at(rng(), rng());
+    if (p) into.push(p);
+  }
+  return into;
+}
+
+/** Rows and columns of a grid with about `count` cells inside the shape, square on the ground. */
+function gridSize(domain: Domain, count: number, density = 1) {
+  const cells = Math.min(MAX_CELLS, Math.ceil((count * density) / domain.fill));
+  const rows = Math.max(1, Math.round(Math.sqrt(cells / domain.aspect)));
+  const cols = Math.max(1, Math.ceil(cells / rows));
+  return { rows, cols };
+}
+
+function shuffle<T>(items: T[], rng: Rng): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function stratified(domain: Domain, count: number, rng: Rng): Point[] {
+  const { rows, cols } = gridSize(domain, count);
+  const points: Point[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const p = domain.at((c + rng()) / cols, (r + rng()) / rows);
+      if (p) points.push(p);
+    }
+  }
+  // Shuffle before trimming so extra points are not all cut from the last rows.
+  const kept = shuffle(points, rng).slice(0, count);
+  return kept.length < count ? uniform(domain, count, rng, kept) : kept;
+}
+
+/** Splits `count` across parts by area, handing leftovers to the largest remainders. */
+function allocate(parts: Domain[], count: number): number[] {
+  const total = parts.reduce((sum, part) => sum + part.areaM2, 0);
+  const exact = parts.map((part) => (count * part.areaM2) / total);
+  const counts = exact.map(Math.floor);
+  const leftover = count - counts.reduce((a, b) => a + b, 0);
+  const order = exact.map((x, i) => [x - counts[i], i]).sort((a, b) => b[0] - a[0]);
+  for (let k = 0; k < leftover; k++) counts[order[k][1]]++;
+  return counts;
+}
+
+/** Cell centres inside the shape; rows of ring-bounded shapes are trimmed to their crossings. */
+function cellsInside(domain: Domain, rows: number, cols: number): Point[] {
+  const points: Point[] = [];
+  for (let r = 0; r < rows; r++) {
+    const v = (r + 0.5) / rows;
+    if (!domain.rows) {
+      for (let c = 0; c < cols; c++) {
+        const p = domain.at((c + 0.5) / cols, v);
+        if (p) points.push(p);
+      }
+      continue;
+    }
+    const xs = domain.rows.crossings(v);
+    for (let k = 0; k + 1 < xs.length; k += 2) {
+      const last = Math.ceil(xs[k + 1] * cols - 0.5);
+      for (let c = Math.max(0, Math.ceil(xs[k] * cols - 0.5)); c < Math.min(cols, last); c++) {
+        points.push(domain.rows.point((c + 0.5) / cols, v));
+      }
+    }
+  }
+  return points;
+}
+
+const GRID_LIMIT_NOTE = "The grid stopped at its work limit; use fewer points or a simpler outline to fill it";
+
+function grid(domain: Domain, count: number, notes: string[], budget = MAX_GRID_WORK): Point[] {
+  if (domain.parts) {
+    const counts = allocate(domain.parts, count);
+    return domain.parts.flatMap((part, i) => grid(part.grid ?? part, counts[i], notes, (budget * counts[i]) / count));
+  }
+
+  // Shapes that miss most cell centres (rings, few points) get a denser grid.
+  let points: Point[] = [];
+  let work = 0;
+  for (let density = 1; density <= 16 && points.length < count; density *= 2) {
+    const { rows, cols } = gridSize(domain, count, density);
+    const cost = domain.rows ? rows * domain.rows.edges + count * density : rows * cols;
+    if (work + cost > budget) {
+      if (!notes.includes(GRID_LIMIT_NOTE)) notes.push(GRID_LIMIT_NOTE);
+      // Nothing laid out yet: settle for the coarser grid the budget still covers.
+      const affordable = domain.rows ? Math.floor((budget - count * density) / domain.rows.edges) : 0;
+      if (!points.length && affordable > 0) points = cellsInside(domain, affordable, Math.ceil((cols * affordable) / rows));
+      break;
+    }
+    work += cost;
+    points = cellsInside(domain, rows, cols);
+    if (rows * cols >= MAX_CELLS) break;
+  }
+  if (points.length <= count) return points;
+  // Thin evenly rather than dropping the far edge of the grid.
+  return Array.from({ length: count }, (_, i) => points[Math.floor((i * points.length) / count)]);
+}
+
+function poissonDisk(domain: Domain, count: number, rng: Rng, spacingMeters?: number): Point[] {
+  const spacing = spacingMeters ?? DEFAULT_SPACING_FACTOR * Math.sqrt(domain.areaM2 / count);
+  // Work with chord lengths between unit vectors, hashed into cubes of that size.
+  const chord = 2 * Math.sin(Math.min(Math.PI, spacing / EARTH_RADIUS_M) / 2);
+  const cells = new Map<string, [number, number, number][]>();
+  const cellOf = (v: number[]) => v.map((x) => Math.floor(x / chord));
+
+  const points: Point[] = [];
+  const maxAttempts = count * ATTEMPTS_PER_POINT;
+  for (let attempts = 0; points.length < count && attempts < maxAttempts; attempts++) {
+    const p = domain.at(rng(), rng());
+    if (!p) continue;
+
+    const v = toVector(p);
+    const [cx, cy, cz] = cellOf(v);
+    let clear = true;
+    for (let dx = -1; dx <= 1 && clear; dx++) {
+      for (let dy = -1; dy <= 1 && clear; dy++) {
+        for (let dz = -1; dz <= 1 && clear; dz++) {
+          for (const w of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+            if (Math.hypot(v[0] - w[0], v[1] - w[1], v[2] - w[2]) < chord) {
+              clear = false;
+              break;
+            }
+          }
+        }
+      }
+    }
+    if (!clear) continue;
+
+    const key = `${cx},${cy},${cz}`;
+    cells.set(key, [...(cells.get(key) ?? []), v]);
+    points.push(p);
+  }
+  return points;
+}
+
+/** Problems met while sampling that the caller should report, such as a grid cut short, go to `notes`. */
+export function samplePoints(
+  domain: Domain,
+  count: number,
+  { strategy = "uniform", rng = Math.random, spacingMeters }: SampleOptions = {},
+  notes: string[] = []
+): Point[] {
+  switch (strategy) {
+    case "uniform":
+      return uniform(domain, count, rng);
+    case "stratified":
+      return stratified(domain, count, rng);
+    case "poisson-disk":
+      return poissonDisk(domain, count, rng, spacingMeters);
+    case "grid":
+      return grid(domain.grid ?? domain, count, notes);
+  }
+}
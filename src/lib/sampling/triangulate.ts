@@ -0,0 +1,82 @@
+/** `[x, y]` on whichever plane a ring has been projected to. */
+export type Vec = [number, number];
+export type Triangle = [Vec, Vec, Vec];
+
+const cross = (a: Vec, b: Vec, c: Vec) => (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+
+export function signedArea(ring: Vec[]): number {
+  let twice = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    twice += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return twice / 2;
+}
+
+export const triangleArea = ([a, b, c]: Triangle) => Math.abs(cross(a, b, c)) / 2;
+
+function inTriangle(p: Vec, a: Vec, b: Vec, c: Vec) {
+  return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+}
+
+function segmentsCross(a: Vec, b: Vec, c: Vec, d: Vec) {
+  const d1 = cross(c, d, a), d2 = cross(c, d, b), d3 = cross(a, b, c), d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/** Whether any two non-adjacent edges of the ring cross. */
+export function selfIntersects(ring: Vec[]): boolean {
+  const n = ring.length;
+  for (let i = 0; i < n; i++) {
+    const a = ring[i], b = ring[(i + 1) % n];
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // shares the first vertex
+      if (segmentsCross(a, b, ring[j], ring[(j + 1) % n])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Ear clipping for a simple ring, in either winding. Returns null when no ear
+ * can be found, which only happens for self-intersecting input.
+ */
+export function triangulate(ring: Vec[]): Triangle[] | null {
+  const pts = signedArea(ring) < 0 ? [...ring].reverse() : [...ring];
+  const idx = pts.map((_, i) => i);
+  const triangles: Triangle[] = [];
+
+  // Walk round the ring clipping ears; a full lap without one means the ring is not simple.
+  let k = 0;
+  let misses = 0;
+  while (idx.length > 3) {
+    if (misses >= idx.length) return null;
+    k %= idx.length;
+    const a = pts[idx[(k + idx.length - 1) % idx.length]];
+    const b = pts[idx[k]];
+    const c = pts[idx[(k + 1) % idx.length]];
+    const turn = cross(a, b, c);
+
+    let ear = turn === 0; // collinear vertex: drop it without emitting a sliver
+    if (turn > 0) {
+      ear = !idx.some((i) => {
+        const p = pts[i];
+        return p !== a && p !== b && p !== c && inTriangle(p, a, b, c);
+      });
+      if (ear) triangles.push([a, b, c]);
+    }
+
+    if (ear) {
+      idx.splice(k, 1);
+      misses = 0;
+    } else {
+      k++;
+      misses++;
+    }
+  }
+
+  if (idx.length === 3) {
+    const tri: Triangle = [pts[idx[0]], pts[idx[1]], pts[idx[2]]];
+    if (triangleArea(tri) > 0) triangles.push(tri);
+  }
+  return triangles;
+}
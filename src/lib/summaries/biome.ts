@@ -0,0 +1,130 @@
+import { getCacheStore, versionedKey } from "@/lib/cache";
+import { FALLBACK_MODEL, generateStructured, getLlmProvider, summaryMap, type SummaryRules } from "@/lib/llm";
+import { settleAsCompleted } from "@/lib/ndjson";
+import { biomeFacts, factsDigest, factSheet, type Citation } from "./facts";
+import { BIOME_FALLBACKS } from "./fallbacks";
+import { DEFAULT_LOCALE, languageRule, type Locale } from "./locale";
+import type { SummaryOptions, SummaryRecord } from "./types";
+
+export const BIOME_CACHE = "biome-summaries";
+
+// Bump whenever the prompt below changes so stale summaries are not served.
+const PROMPT_VERSION = 3;
+
+// Mirrors the length rule stated in the prompt below.
+const SUMMARY_RULES: SummaryRules = { sentences: [3, 6] };
+
+export interface BiomeData {
+  biome: string;
+  biome_name: string;
+  climate_data: { temperature: number; precipitation: number; radiation: number };
+  species: { common_name: string; phenophase?: string; timing_prediction?: string }[];
+  pests: { common_name_pest: string }[];
+}
+
+function fallbackSummary(biome: BiomeData, locale: Locale) {
+  const plants = biome.species.slice(0, 2).map((s) => s.common_name).join(", ");
+  const pest = biome.pests.slice(0, 1).map((p) => p.common_name_pest).join("");
+  return BIOME_FALLBACKS[locale](biome.biome_name, plants, pest);
+}
+
+function buildPrompt(biomesToFetch: BiomeData[], locale: Locale, facts: Record<string, Citation[]>) {
+  return `
+You are a scientific writer for a botanical field guide. Your task is to generate extremely concise, data-rich summaries for the provided biomes, plant, pest species and rest of the factors . Brevity and factual accuracy are the highest priorities.
+
+Follow these rules strictly:
+1.  **Length Constraint:** Each summary MUST be 3-6 sentences long.
+2.  **Content Requirement:** Each summary MUST be tailored to the provided environmental context (biome name, climate data). Concisely describe overall biomes what plants and pests are there and about and about rest of the things. Always keep a bit of  variation in sentences for each biomes no two sentences should sound same.
+3.  **Tone:** The writing style must be dense, factual, and encyclopedic. Do not use conversational language or speculative information. Never use scientific names.
+4.  **Output Format:** Your ENTIRE response MUST be a single, valid JSON object. The keys of the object MUST be the biome codes (e.g., "Cfa"), and the values MUST be the generated summary strings.
+
+YOUR RESPONSE MUST ALWAYS BE A VALID JSON OBJECT YOU CANNOT DISOBEY THIS RULE${languageRule(locale)}
+Here is the data for the biome summaries you need to generate:
+${JSON.stringify(biomesToFetch, null, 2)}
+
+FACT SHEETS. Ground every statement in the facts listed for that biome code and do not state dates, ranges, numbers or distributions they do not support:
+${biomesToFetch.map((biome) => `${biome.biome}:\n${factSheet(facts[biome.biome] ?? [])}`).join("\n\n")}
+`.trim();
+}
+
+/**
+ * Overview text per biome code. Cached biomes are served as-is; the rest are
+ * generated in a single model call (or from the fallback template when no
+ * model is configured).
+ */
+export async function getBiomeSummaries(biomes: BiomeData[], { force = false, locale = DEFAULT_LOCALE }: SummaryOptions = {}) {
+  const llm = getLlmProvider();
+  const modelUsed = llm?.model ?? FALLBACK_MODEL;
+  const cache = getCacheStore(BIOME_CACHE);
+  const facts: Record<string, Citation[]> = {};
+  for (const biome of biomes) {
+    facts[biome.biome] ??= await biomeFacts(biome);
+  }
+  const cacheKey = (biomeCode: string) =>
+    versionedKey(`${biomeCode}::${locale}::${factsDigest(facts[biomeCode])}`, modelUsed, PROMPT_VERSION);
+  const summaries: Record<string, string> = {};
+  // What each summary was grounded on: the stored facts for cached ones.
+  const citations: Record<string, Citation[]> = { ...facts };
+  const biomesToFetch: BiomeData[] = [];
+
+  for (const biome of biomes) {
+    const cached = force ? undefined : await cache.get<SummaryRecord<BiomeData>>(cacheKey(biome.biome));
+    if (cached?.summary) {
+      summaries[biome.biome] = cached.summary;
+      citations[biome.biome] = cached.citations ?? facts[biome.biome];
+    } else {
+      biomesToFetch.push(biome);
+    }
+  }
+
+  if (biomesToFetch.length === 0) {
+    return { summaries, citations, model: "cache" };
+  }
+
+  const offline = Object.fromEntries(biomesToFetch.map((biome) => [biome.biome, fallbackSummary(biome, locale)]));
+  const newSummaries = llm
+    ? await generateStructured(llm, {
+        prompt: buildPrompt(biomesToFetch, locale, facts),
+        offline: JSON.stringify(offline),
+        schema: summaryMap(biomesToFetch.map((biome) => biome.biome), SUMMARY_RULES),
+      })
+    : offline;
+
+  const generatedAt = new Date().toISOString();
+  for (const biome of biomesToFetch) {
+    const summary = newSummaries[biome.biome];
+    if (!summary) continue;
+    summaries[biome.biome] = summary;
+    await cache.set<SummaryRecord<BiomeData>>(cacheKey(biome.biome), {
+      summary,
+      modelUsed,
+      generatedAt,
+      locale,
+      citations: facts[biome.biome],
+      input: biome,
+    });
+  }
+
+  return { summaries, citations, model: modelUsed };
+}
+
+export type BiomeSummaryEvent =
+  | { biome: string; summary: string; citations: Citation[]; model: string }
+  | { biome: string; error: string };
+
+/**
+ * Streaming variant of getBiomeSummaries: each biome gets its own model call
+ * and is yielded the moment it is ready, cached ones first.
+ */
+export async function* streamBiomeSummaries(biomes: BiomeData[], options: SummaryOptions = {}): AsyncGenerator<BiomeSummaryEvent> {
+  const unique = [...new Map(biomes.map((biome) => [biome.biome, biome])).values()];
+
+  for await (const { item, value, error } of settleAsCompleted(unique, (biome) => getBiomeSummaries([biome], options))) {
+    const summary = value?.summaries[item.biome];
+    if (summary) {
+      yield { biome: item.biome, summary, citations: value.citations[item.biome] ?? [], model: value.model };
+    } else {
+      yield { biome: item.biome, error: (error as Error)?.message || "No summary generated" };
+    }
+  }
+}
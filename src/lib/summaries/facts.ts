@@ -0,0 +1,182 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Fact sheets assembled from the datasets the app already ships in public/
+ * plus the analysis output the client sends along. They are injected into the
+ * prompts so the model restates known numbers instead of recalling them, and
+ * returned to the client as citations.
+ */
+
+export interface Citation {
+  /** Dataset file, or `analysis.<field>` for values from /analyze-by-biome. */
+  source: string;
+  fact: string;
+}
+
+export interface ClimateData {
+  temperature: number;
+  precipitation: number;
+  radiation: number;
+}
+
+type PhenophaseProfile = { phenophase: string; "Environmental Variable": string; "Average Value": number };
+type PestSighting = { country: string; common_name_pest: string; sightings: number };
+type Sankey = { nodes: { label: string[] }; links: { source: number[]; target: number[]; value: number[] } };
+
+const PROFILES_FILE = "phenophase_environmental_profiles.json";
+const SIGHTINGS_FILE = "pest_sightings_by_country.json";
+const SANKEY_FILE = "sankey_data_light.json";
+
+const datasets = new Map<string, Promise<any>>();
+
+function loadDataset<T>(file: string): Promise<T> {
+  let data = datasets.get(file);
+  if (!data) {
+    data = fs.readFile(path.join(process.cwd(), "public", file), "utf8").then((buf) => JSON.parse(buf));
+    data.catch(() => datasets.delete(file));
+    datasets.set(file, data);
+  }
+  return data;
+}
+
+const same = (a?: string, b?: string) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Climate is stated to whole units so that nearby analyses share a fact sheet, and with it a cached summary.
+export function climateFact(climate: ClimateData | undefined, where: string): Citation[] {
+  if (!climate) return [];
+  return [{
+    source: "analysis.climate_data",
+    fact: `Predicted climate at the ${where} centroid: about ${Math.round(climate.temperature)} °C mean temperature, ${Math.round(climate.precipitation)} mm/day precipitation, ${Math.round(climate.radiation)} W/m² solar radiation.`,
+  }];
+}
+
+async function phenophaseProfileFacts(phenophase: string): Promise<Citation[]> {
+  const profiles = await loadDataset<PhenophaseProfile[]>(PROFILES_FILE);
+  const rows = profiles.filter((row) => same(row.phenophase, phenophase));
+  if (rows.length === 0) return [];
+
+  const value = (variable: string) => rows.find((row) => row["Environmental Variable"] === variable)?.["Average Value"];
+  const parts: string[] = [];
+  const t2m = value("T2M");
+  const precip = value("PRECTOTCORR");
+  const swgdn = value("SWGDN");
+  // Same unit conversions the model server applies before display
+  if (t2m !== undefined) parts.push(`${round(t2m - 273.15)} °C mean temperature`);
+  if (precip !== undefined) parts.push(`${round(precip * 86400)} mm/day precipitation`);
+  if (swgdn !== undefined) parts.push(`${round(swgdn)} average shortwave radiation (SWGDN)`);
+
+  return [{ source: PROFILES_FILE, fact: `Across all observations, ${phenophase} occurs at ${parts.join(", ")}.` }];
+}
+
+/** Strongest sankey links from or to `name`, e.g. the pests most observed on a plant. */
+async function sankeyLinks(name: string, direction: "from" | "to", limit = 3) {
+  const { nodes, links } = await loadDataset<Sankey>(SANKEY_FILE);
+  const index = nodes.label.findIndex((label) => same(label, name));
+  if (index === -1) return [];
+
+  const found: { label: string; value: number }[] = [];
+  links.source.forEach((source, i) => {
+    const target = links.target[i];
+    if (direction === "from" && source === index) found.push({ label: nodes.label[target], value: links.value[i] });
+    if (direction === "to" && target === index) found.push({ label: nodes.label[source], value: links.value[i] });
+  });
+  // Single-letter nodes are the scenario groups feeding the sankey, not species
+  return found.filter((link) => link.label.length > 1).sort((a, b) => b.value - a.value).slice(0, limit);
+}
+
+export async function plantFacts(input: {
+  common_name?: string;
+  biome_name?: string;
+  phenophase?: string;
+  timing_prediction?: string;
+  climate_data?: ClimateData;
+}): Promise<Citation[]> {
+  const name = input.common_name || "this plant";
+  const facts: Citation[] = [];
+
+  if (input.phenophase) {
+    facts.push({ source: "analysis.phenophase", fact: `Predicted phenophase of ${name} in the ${input.biome_name} biome: ${input.phenophase}.` });
+  }
+  if (input.timing_prediction) {
+    facts.push({ source: "analysis.timing_prediction", fact: `Predicted timing of this phenophase relative to normal: ${input.timing_prediction}.` });
+  }
+  facts.push(...climateFact(input.climate_data, input.biome_name || "biome"));
+  if (input.phenophase) facts.push(...(await phenophaseProfileFacts(input.phenophase)));
+
+  const pests = input.common_name ? await sankeyLinks(input.common_name, "from") : [];
+  if (pests.length > 0) {
+    facts.push({
+      source: SANKEY_FILE,
+      fact: `Pests most often recorded with ${name}: ${pests.map((p) => `${p.label} (${p.value} records)`).join(", ")}.`,
+    });
+  }
+  return facts;
+}
+
+export async function pestFacts(input: { pest_name: string; biome_name: string; climate_data?: ClimateData }): Promise<Citation[]> {
+  const facts: Citation[] = [...climateFact(input.climate_data, input.biome_name)];
+
+  const sightings = (await loadDataset<PestSighting[]>(SIGHTINGS_FILE)).filter((row) => same(row.common_name_pest, input.pest_name));
+  if (sightings.length > 0) {
+    const total = sightings.reduce((sum, row) => sum + row.sightings, 0);
+    const top = [...sightings].sort((a, b) => b.sightings - a.sightings).slice(0, 5);
+    facts.push({
+      source: SIGHTINGS_FILE,
+      fact: `${input.pest_name} has ${total} recorded sightings in ${sightings.length} countries; most in ${top.map((row) => `${row.country} (${row.sightings})`).join(", ")} (ISO 3166 alpha-3 codes).`,
+    });
+  }
+
+  const hosts = await sankeyLinks(input.pest_name, "to");
+  if (hosts.length > 0) {
+    facts.push({
+      source: SANKEY_FILE,
+      fact: `Plants most often recorded with ${input.pest_name}: ${hosts.map((h) => `${h.label} (${h.value} records)`).join(", ")}.`,
+    });
+  }
+  return facts;
+}
+
+export async function biomeFacts(biome: {
+  biome_name: string;
+  climate_data?: ClimateData;
+  species: { common_name: string; phenophase?: string; timing_prediction?: string }[];
+  pests: { common_name_pest: string }[];
+}): Promise<Citation[]> {
+  const facts: Citation[] = [...climateFact(biome.climate_data, biome.biome_name)];
+
+  const phenophases = [...new Set(biome.species.map((s) => s.phenophase).filter((p): p is string => !!p))];
+  if (phenophases.length > 0) {
+    facts.push({ source: "analysis.phenophase", fact: `Predicted phenophase of the listed species: ${phenophases.join(", ")}.` });
+  }
+
+  const timed = biome.species.filter((s) => s.timing_prediction).slice(0, 5);
+  if (timed.length > 0) {
+    facts.push({
+      source: "analysis.timing_prediction",
+      fact: `Predicted timing: ${timed.map((s) => `${s.common_name} ${s.timing_prediction}`).join("; ")}.`,
+    });
+  }
+
+  for (const pest of biome.pests.slice(0, 2)) {
+    facts.push(...(await pestFacts({ pest_name: pest.common_name_pest, biome_name: biome.biome_name })).filter((f) => f.source === SIGHTINGS_FILE));
+  }
+  return facts;
+}
+
+/** Numbered list for the prompt; the model is told to rely on nothing else for numbers and dates. */
+export function factSheet(facts: Citation[]) {
+  if (facts.length === 0) return "No verified facts are available; stay general and do not state specific dates, ranges or numbers.";
+  return facts.map((f, i) => `[${i + 1}] ${f.fact}`).join("\n");
+}
+
+/**
+ * Short digest of the fact sheet, part of every summary cache key, so a
+ * cached summary is only reused for the facts it was grounded on. Covers
+ * dataset changes and per-analysis facts (climate, phenophase, timing) alike.
+ */
+export function factsDigest(facts: Citation[]) {
+  return createHash("sha1").update(JSON.stringify(facts)).digest("hex").slice(0, 10);
+}
@@ -0,0 +1,32 @@
+import type { Locale } from "./locale";
+
+/** Template text served when no model is configured, per locale. */
+
+export const BIOME_FALLBACKS: Record<Locale, (biome: string, plants: string, pest: string) => string> = {
+  en: (biome, plants, pest) =>
+    `The ${biome} biome is characterized by its distinct climate patterns. It supports a variety of plant species, including ${plants}, and is home to pests such as ${pest}.`,
+  es: (biome, plants, pest) =>
+    `El bioma ${biome} se caracteriza por sus patrones climáticos distintivos. Alberga una variedad de especies vegetales, entre ellas ${plants}, y plagas como ${pest}.`,
+  pt: (biome, plants, pest) =>
+    `O bioma ${biome} é caracterizado por seus padrões climáticos distintos. Abriga uma variedade de espécies vegetais, incluindo ${plants}, e pragas como ${pest}.`,
+  hi: (biome, plants, pest) =>
+    `${biome} बायोम अपनी विशिष्ट जलवायु के लिए जाना जाता है। यहाँ ${plants} सहित कई पौधों की प्रजातियाँ पाई जाती हैं, और ${pest} जैसे कीट भी मौजूद हैं।`,
+};
+
+export const FLOWER_FALLBACKS: Record<Locale, (plant: string, biome: string) => string> = {
+  en: (plant, biome) => `${plant} is well-adapted to the conditions of the ${biome} biome.`,
+  es: (plant, biome) => `${plant} está bien adaptada a las condiciones del bioma ${biome}.`,
+  pt: (plant, biome) => `${plant} é bem adaptada às condições do bioma ${biome}.`,
+  hi: (plant, biome) => `${plant} ${biome} बायोम की परिस्थितियों के लिए अच्छी तरह अनुकूलित है।`,
+};
+
+export const PEST_FALLBACKS: Record<Locale, (pest: string, biome: string) => string> = {
+  en: (pest, biome) =>
+    `${pest} is a known pest in the ${biome} biome. Control methods should be considered based on local guidelines.`,
+  es: (pest, biome) =>
+    `${pest} es una plaga conocida en el bioma ${biome}. Los métodos de control deben considerarse según las directrices locales.`,
+  pt: (pest, biome) =>
+    `${pest} é uma praga conhecida no bioma ${biome}. Os métodos de controle devem ser considerados de acordo com as diretrizes locais.`,
+  hi: (pest, biome) =>
+    `${pest} ${biome} बायोम का एक ज्ञात कीट है। नियंत्रण के उपाय स्थानीय दिशानिर्देशों के अनुसार अपनाए जाने चाहिए।`,
+};
@@ -0,0 +1,83 @@
+import { getCacheStore, versionedKey } from "@/lib/cache";
+import { FALLBACK_MODEL, generateStructured, getLlmProvider, summaryObject, type SummaryRules } from "@/lib/llm";
+import { factsDigest, factSheet, plantFacts, type Citation, type ClimateData } from "./facts";
+import { FLOWER_FALLBACKS } from "./fallbacks";
+import { DEFAULT_LOCALE, languageRule, type Locale } from "./locale";
+import type { SummaryOptions, SummaryRecord } from "./types";
+
+export const FLOWER_CACHE = "flower-summaries";
+
+// Bump whenever the prompt below changes so stale summaries are not served.
+const PROMPT_VERSION = 3;
+
+// Mirrors the length rules stated in the prompt below.
+const SUMMARY_RULES: SummaryRules = { sentences: [2, 3], words: [40, 60] };
+
+export interface FlowerInput {
+  scientific_name?: string;
+  common_name?: string;
+  biome_name?: string;
+  /** Analysis context for this species, used to ground the summary. */
+  phenophase?: string;
+  timing_prediction?: string;
+  climate_data?: ClimateData;
+}
+
+function makeKey({ scientific_name, common_name, biome_name }: FlowerInput, locale: Locale, facts: Citation[]) {
+  const name = (scientific_name || common_name || "unknown").trim().toLowerCase();
+  const biome = (biome_name || "unknown").trim().toLowerCase();
+  return `${name}::${biome}::${locale}::${factsDigest(facts)}`;
+}
+
+function buildPrompt({ scientific_name, common_name, biome_name }: FlowerInput, locale: Locale, facts: Citation[]) {
+  return `
+You are a scientific writer for a botanical field guide. Your task is to generate an extremely concise, data-rich summary for the provided plant species. Brevity and factual accuracy are the highest priorities.
+
+Follow these rules with absolute precision:
+1.  **Complete Iteration:** For the single biome provided, generate a summary for the single species provided.
+2.  **Complete JSON Output:** Your entire response MUST be a single, valid JSON object with a single key "summary" and the value as the summary string.
+3.  **Summary Content:** For each summary, concisely describe the plant's general appearance, its seasonal cycle (like flowering time) in its specific biome, and its primary ecological role. Take the phenophase, timing, climate and associated pests from the fact sheet below.
+4.  **Summary Style:** Each summary must be 2-3 sentences and 40-60 words. The tone must be dense, factual, and encyclopedic.${languageRule(locale)}
+
+Here is the data you MUST process in its entirety:
+${JSON.stringify({ scientific_name, common_name, biome_name }, null, 2)}
+
+FACT SHEET. Ground every statement in these facts and do not state dates, ranges, numbers or distributions they do not support:
+${factSheet(facts)}
+`.trim();
+}
+
+export async function getFlowerSummary(input: FlowerInput, { force = false, locale = DEFAULT_LOCALE }: SummaryOptions = {}) {
+  const llm = getLlmProvider();
+  const modelUsed = llm?.model ?? FALLBACK_MODEL;
+  const cache = getCacheStore(FLOWER_CACHE);
+  const facts = await plantFacts(input);
+  const cacheKey = versionedKey(makeKey(input, locale, facts), modelUsed, PROMPT_VERSION);
+
+  const cached = force ? undefined : await cache.get<SummaryRecord<FlowerInput>>(cacheKey);
+  if (cached?.summary) {
+    return { summary: cached.summary, citations: cached.citations ?? facts, cached: true };
+  }
+
+  const namePart = input.scientific_name || input.common_name || "This plant";
+  const fallback = FLOWER_FALLBACKS[locale](namePart, input.biome_name || "unknown");
+
+  const summary = llm
+    ? (await generateStructured(llm, {
+        prompt: buildPrompt(input, locale, facts),
+        offline: JSON.stringify({ summary: fallback }),
+        schema: summaryObject(SUMMARY_RULES),
+      })).summary
+    : fallback;
+
+  await cache.set<SummaryRecord<FlowerInput>>(cacheKey, {
+    summary,
+    modelUsed,
+    generatedAt: new Date().toISOString(),
+    locale,
+    citations: facts,
+    input,
+  });
+
+  return { summary, citations: facts };
+}
@@ -0,0 +1,107 @@
+import { getCacheStore } from "@/lib/cache";
+import { BIOME_CACHE, getBiomeSummaries, streamBiomeSummaries, type BiomeData, type BiomeSummaryEvent } from "./biome";
+import { FLOWER_CACHE, getFlowerSummary, type FlowerInput } from "./flower";
+import { PEST_NAMES, PLANT_NAMES } from "./names";
+import { PEST_CACHE, getPestSummary, type PestInput } from "./pest";
+import type { Locale } from "./locale";
+import type { SummaryOptions, SummaryRecord } from "./types";
+
+export { getBiomeSummaries, getFlowerSummary, getPestSummary, streamBiomeSummaries };
+export type { BiomeData, BiomeSummaryEvent, FlowerInput, PestInput, SummaryRecord };
+export type { SummaryOptions };
+export type { Citation } from "./facts";
+export { normalizeLocale, SUPPORTED_LOCALES, type Locale } from "./locale";
+
+/** Most flower or pest inputs one `?stream=1` request may carry, and how many are generated at once. */
+export const MAX_STREAMED_SUMMARIES = 20;
+export const STREAM_CONCURRENCY = 4;
+
+/** The three summary caches, by the name the admin API uses for them. */
+export const SUMMARY_CACHES = {
+  biome: {
+    namespace: BIOME_CACHE,
+    regenerate: (input: BiomeData, options: SummaryOptions) => getBiomeSummaries([input], options),
+  },
+  flower: {
+    namespace: FLOWER_CACHE,
+    regenerate: (input: FlowerInput, options: SummaryOptions) => getFlowerSummary(input, options),
+  },
+  pest: {
+    namespace: PEST_CACHE,
+    regenerate: (input: PestInput, options: SummaryOptions) => getPestSummary(input, options),
+  },
+} as const;
+
+export type SummaryKind = keyof typeof SUMMARY_CACHES;
+
+export const isSummaryKind = (kind: string): kind is SummaryKind => kind in SUMMARY_CACHES;
+
+export function getSummaryStore(kind: SummaryKind) {
+  return getCacheStore(SUMMARY_CACHES[kind].namespace);
+}
+
+/**
+ * Regenerates the summary stored under `key` from the input recorded with it.
+ * The fresh summary is written under the current model/prompt key; if that
+ * differs from `key` (e.g. upgrading a fallback entry) the old entry is removed.
+ */
+export async function regenerateSummary(kind: SummaryKind, key: string) {
+  const store = getSummaryStore(kind);
+  const record = await store.get<SummaryRecord>(key);
+  if (!record?.input) return null;
+
+  const regenerate = SUMMARY_CACHES[kind].regenerate as (input: unknown, options: SummaryOptions) => Promise<unknown>;
+  const result = await regenerate(record.input, { force: true, locale: record.locale });
+
+  const current = await store.get<SummaryRecord>(key);
+  if (current?.generatedAt === record.generatedAt) {
+    await store.delete(key);
+  }
+  return result;
+}
+
+/**
+ * Generates flower or pest summaries for every name in the model's lookups
+ * across `biomeNames`, `concurrency` at a time. Already cached pairs are
+ * skipped unless `force` is set. There is no analysis behind these, so the
+ * entries serve requests that arrive without climate, phenophase or timing.
+ */
+export async function pregenerateSummaries(
+  kind: "flower" | "pest",
+  biomeNames: string[],
+  { force = false, concurrency = 4, locale }: { force?: boolean; concurrency?: number; locale?: Locale } = {}
+) {
+  const jobs: Array<() => Promise<unknown>> = [];
+  for (const biome_name of biomeNames) {
+    if (kind === "flower") {
+      for (const [scientific_name, common_name] of Object.entries(PLANT_NAMES)) {
+        jobs.push(() => getFlowerSummary({ scientific_name, common_name, biome_name }, { force, locale }));
+      }
+    } else {
+      for (const pest_name of Object.values(PEST_NAMES)) {
+        jobs.push(() => getPestSummary({ pest_name, biome_name }, { force, locale }));
+      }
+    }
+  }
+
+  let next = 0;
+  let generated = 0;
+  let cached = 0;
+  const errors: string[] = [];
+
+  const worker = async () => {
+    while (next < jobs.length) {
+      const job = jobs[next++];
+      try {
+        const result = (await job()) as { cached?: boolean };
+        if (result.cached) cached++;
+        else generated++;
+      } catch (e: any) {
+        errors.push(e?.message || "Unknown error");
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+
+  return { total: jobs.length, generated, cached, failed: errors.length, errors: errors.slice(0, 20) };
+}
@@ -0,0 +1,37 @@
+/**
+ * Languages the summaries can be generated in. Kept free of server-only
+ * imports so the map UI can share the list.
+ */
+export const SUPPORTED_LOCALES = ["en", "es", "pt", "hi"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  pt: "Português",
+  hi: "हिन्दी",
+};
+
+// Used inside prompts, so always in English.
+const PROMPT_LANGUAGE: Record<Locale, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  hi: "Hindi (Devanagari script)",
+};
+
+/** Maps "es", "pt-BR", "hi_IN" ... onto a supported locale, defaulting to English. */
+export function normalizeLocale(input: unknown): Locale {
+  const base = String(input ?? "").trim().toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LOCALES as readonly string[]).includes(base) ? (base as Locale) : DEFAULT_LOCALE;
+}
+
+/** Extra prompt rule asking for summaries in `locale`; empty for English. */
+export function languageRule(locale: Locale) {
+  if (locale === DEFAULT_LOCALE) return "";
+  return `
+LANGUAGE: Write every summary in ${PROMPT_LANGUAGE[locale]}. Keep the JSON keys exactly as specified in English; only the summary text is translated. Species, pest and biome names may be translated when a common local name exists.`;
+}
@@ -0,0 +1,5 @@
+import nameLookups from "../../../backend/models/name_lookups.json";
+
+/** Scientific -> common names shipped with the model server. */
+export const PLANT_NAMES: Record<string, string> = nameLookups.plant_names;
+export const PEST_NAMES: Record<string, string> = nameLookups.pest_names;
@@ -0,0 +1,84 @@
+import { getCacheStore, versionedKey } from "@/lib/cache";
+import { FALLBACK_MODEL, generateStructured, getLlmProvider, StructuredOutputError, summaryObject, type SummaryRules } from "@/lib/llm";
+import { factsDigest, factSheet, pestFacts, type Citation, type ClimateData } from "./facts";
+import { PEST_FALLBACKS } from "./fallbacks";
+import { DEFAULT_LOCALE, languageRule, type Locale } from "./locale";
+import type { SummaryOptions, SummaryRecord } from "./types";
+
+export const PEST_CACHE = "pest-summaries";
+
+// Bump whenever the prompt below changes so stale summaries are not served.
+const PROMPT_VERSION = 3;
+
+// Mirrors the length rule stated in the prompt below.
+const SUMMARY_RULES: SummaryRules = { sentences: [2, 4] };
+
+export interface PestInput {
+  pest_name: string;
+  biome_name: string;
+  /** Climate of the analysed biome, used to ground the summary. */
+  climate_data?: ClimateData;
+}
+
+function makeKey({ pest_name, biome_name }: PestInput, locale: Locale, facts: Citation[]) {
+  const name = (pest_name || "unknown").trim().toLowerCase();
+  const biome = (biome_name || "unknown").trim().toLowerCase();
+  return `${name}::${biome}::${locale}::${factsDigest(facts)}`;
+}
+
+function buildPrompt({ pest_name, biome_name }: PestInput, locale: Locale, facts: Citation[]) {
+  return `
+You are an entomologist providing a concise summary of an agricultural or ecological pest.
+
+Follow these rules:
+1.  **Content:** Describe the pest named "${pest_name}". Explain its impact on the local ecosystem or agriculture within the "${biome_name}" biome. Mention its typical life cycle or period of activity. Take its distribution, host plants and local climate from the fact sheet below.
+2.  **Style:** Keep the summary to 2-4 sentences. The tone should be factual and informative.
+3.  **Output:** Respond ONLY with a single, valid JSON object formatted like this: { "summary": "Your generated text here." }${languageRule(locale)}
+
+Do not include markdown, comments, or any other text outside the JSON object.
+
+FACT SHEET. Ground every statement in these facts and do not state dates, ranges, numbers or distributions they do not support:
+${factSheet(facts)}`.trim();
+}
+
+export async function getPestSummary(input: PestInput, { force = false, locale = DEFAULT_LOCALE }: SummaryOptions = {}) {
+  const llm = getLlmProvider();
+  const modelUsed = llm?.model ?? FALLBACK_MODEL;
+  const cache = getCacheStore(PEST_CACHE);
+  const facts = await pestFacts(input);
+  const cacheKey = versionedKey(makeKey(input, locale, facts), modelUsed, PROMPT_VERSION);
+
+  const cached = force ? undefined : await cache.get<SummaryRecord<PestInput>>(cacheKey);
+  if (cached?.summary) {
+    return { summary: cached.summary, citations: cached.citations ?? facts, cached: true };
+  }
+
+  const fallback = PEST_FALLBACKS[locale](input.pest_name, input.biome_name);
+
+  let summary = fallback;
+  if (llm) {
+    try {
+      ({ summary } = await generateStructured(llm, {
+        prompt: buildPrompt(input, locale, facts),
+        offline: JSON.stringify({ summary: fallback }),
+        schema: summaryObject(SUMMARY_RULES),
+      }));
+    } catch (e) {
+      if (e instanceof StructuredOutputError) {
+        console.error("Failed to parse AI response for pest summary:", e.raw);
+      }
+      throw e;
+    }
+  }
+
+  await cache.set<SummaryRecord<PestInput>>(cacheKey, {
+    summary,
+    modelUsed,
+    generatedAt: new Date().toISOString(),
+    locale,
+    citations: facts,
+    input,
+  });
+
+  return { summary, citations: facts };
+}
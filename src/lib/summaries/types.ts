@@ -0,0 +1,20 @@
+import type { Citation } from "./facts";
+import type { Locale } from "./locale";
+
+/** What every summary cache stores, including the request that produced it. */
+export interface SummaryRecord<I = unknown> {
+  summary: string;
+  modelUsed: string;
+  generatedAt: string;
+  locale: Locale;
+  /** Facts the summary was grounded in. */
+  citations: Citation[];
+  input: I;
+}
+
+export interface SummaryOptions {
+  /** Skip the cache lookup and always generate a fresh summary. */
+  force?: boolean;
+  /** Language to write the summary in; English when omitted. */
+  locale?: Locale;
+}
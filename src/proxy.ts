@@ -0,0 +1,70 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getConfig, issueMapsTicket, MAPS_TICKET_COOKIE } from '@/lib/config';
+import { API_KEY_MULTIPLIER, consume, identifyClient, ruleFor } from '@/lib/rate-limit';
+
+/**
+ * Map pages get a fresh signed ticket cookie (MAPS_KEY_MODE=signed) that
+ * /api/config requires before handing out the Maps key.
+ */
+function withMapsTicket() {
+    const res = NextResponse.next();
+    const config = getConfig();
+    if (config.maps.keyMode === 'signed') {
+        res.cookies.set(MAPS_TICKET_COOKIE, issueMapsTicket(config), {
+            httpOnly: true,
+            sameSite: 'strict',
+            secure: config.env !== 'development',
+            path: '/api/config',
+            maxAge: config.maps.ticketTtlSeconds,
+        });
+    }
+    return res;
+}
+
+/**
+ * Shared abuse protection for every /api route: request body size limits and
+ * per-IP / per-API-key rate limits answered with 429 and Retry-After.
+ */
+export function proxy(req: NextRequest) {
+    if (!req.nextUrl.pathname.startsWith('/api')) return withMapsTicket();
+
+    const rule = ruleFor(req.nextUrl.pathname);
+
+    // Node stops reading a body at its Content-Length, so a declared length
+    // bounds it; chunked or undeclared bodies would slip past, so refuse them.
+    const declared = req.headers.get('content-length');
+    const hasBody = req.headers.has('transfer-encoding') || ['POST', 'PUT', 'PATCH'].includes(req.method);
+    if (hasBody && (declared === null || !/^\d+$/.test(declared.trim()))) {
+        return NextResponse.json({ error: 'Content-Length is required' }, { status: 411 });
+    }
+    if (Number(declared || 0) > rule.maxBodyBytes) {
+        return NextResponse.json(
+            { error: `Request body too large: limit is ${rule.maxBodyBytes} bytes` },
+            { status: 413 }
+        );
+    }
+
+    const client = identifyClient(req.headers);
+    const result = consume(`${client.id}:${rule.prefix}`, rule, client.trusted ? API_KEY_MULTIPLIER : 1);
+    const resetSeconds = Math.ceil(result.resetMs / 1000);
+    const headers = {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(resetSeconds),
+    };
+
+    if (!result.allowed) {
+        return NextResponse.json(
+            { error: 'Too many requests, please retry later' },
+            { status: 429, headers: { ...headers, 'Retry-After': String(resetSeconds) } }
+        );
+    }
+
+    const res = NextResponse.next();
+    Object.entries(headers).forEach(([name, value]) => res.headers.set(name, value));
+    return res;
+}
+
+export const config = {
+    matcher: ['/api/:path*', '/map2'],
+};